@@ -0,0 +1,7 @@
+export interface SyncServer {
+  listen(port: number, host: string, callback: () => void): this
+  address(): { port: number } | string | null
+  close(callback?: (error?: Error) => void): this
+}
+
+export function createSyncServer(dataFile?: string | null): SyncServer
@@ -0,0 +1,104 @@
+import { createServer } from 'node:http'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { pathToFileURL } from 'node:url'
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Content-Type': 'application/json',
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+async function readBody(req) {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}')
+}
+
+export function createSyncServer(dataFile = null) {
+  const state = { seq: 0, records: {}, tombstones: {} }
+  if (dataFile && existsSync(dataFile)) Object.assign(state, JSON.parse(readFileSync(dataFile, 'utf8')))
+
+  function save() {
+    if (dataFile) writeFileSync(dataFile, JSON.stringify(state))
+  }
+
+  function apply(change) {
+    const tombstone = state.tombstones[change.id]
+    if (tombstone && tombstone.at >= change.updatedAt) return false
+
+    const entry = state.records[change.id] ?? { task: { id: change.id }, clocks: {}, seq: 0 }
+    let changed = false
+    for (const [key, field] of Object.entries(change.fields ?? {})) {
+      if (field.at < (entry.clocks[key] ?? '')) continue
+      entry.task[key] = field.value
+      entry.clocks[key] = field.at
+      changed = true
+    }
+
+    const latest = Object.values(entry.clocks).reduce((max, at) => (at > max ? at : max), '')
+    if (change.deletedAt && change.deletedAt >= latest) {
+      delete state.records[change.id]
+      state.tombstones[change.id] = { at: change.deletedAt, seq: ++state.seq }
+      return true
+    }
+    if (!changed) return false
+    delete state.tombstones[change.id]
+    entry.seq = ++state.seq
+    state.records[change.id] = entry
+    return true
+  }
+
+  function pull(since) {
+    return {
+      cursor: state.seq,
+      records: Object.values(state.records)
+        .filter((entry) => entry.seq > since)
+        .map(({ task, clocks }) => ({ task, clocks })),
+      removed: Object.entries(state.tombstones)
+        .filter(([, tombstone]) => tombstone.seq > since)
+        .map(([id, tombstone]) => ({ id, at: tombstone.at })),
+    }
+  }
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+    if (req.method === 'OPTIONS') return send(res, 204)
+    if (url.pathname !== '/changes') return send(res, 404, { error: 'Not found' })
+
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') ?? 0)
+      if (!Number.isInteger(since) || since < 0) return send(res, 400, { error: 'Invalid cursor' })
+      return send(res, 200, pull(since))
+    }
+
+    if (req.method === 'POST') {
+      let body
+      try {
+        body = await readBody(req)
+      } catch {
+        return send(res, 400, { error: 'Invalid JSON' })
+      }
+      const changes = Array.isArray(body.changes) ? body.changes : []
+      if (changes.some((change) => typeof change?.id !== 'string' || typeof change.updatedAt !== 'string')) {
+        return send(res, 400, { error: 'Invalid change' })
+      }
+      if (changes.map(apply).some(Boolean)) save()
+      return send(res, 200, { cursor: state.seq })
+    }
+
+    send(res, 405, { error: 'Method not allowed' })
+  })
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT ?? 8787)
+  const dataIndex = process.argv.indexOf('--data')
+  const dataFile = dataIndex === -1 ? null : process.argv[dataIndex + 1]
+  createSyncServer(dataFile).listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port}${dataFile ? ` (data: ${dataFile})` : ''}`)
+  })
+}
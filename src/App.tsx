@@ -1,27 +1,167 @@
-import { useMemo, useState, type ReactNode } from 'react'
-import { DndContext, PointerSensor, closestCorners, type DragEndEvent, useDroppable, useSensor, useSensors } from '@dnd-kit/core'
-import { SortableContext, arrayMove, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { useCallback, useEffect, useEffectEvent, useMemo, useRef, useState, type ReactNode } from 'react'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCorners,
+  type Active,
+  type Announcements,
+  type DragEndEvent,
+  type Over,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core'
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import './App.css'
+import { NetworkBadge, UpdatePrompt } from './components/AppStatus'
+import { BulkActions } from './components/BulkActions'
+import { ChecklistProgress } from './components/ChecklistEditor'
+import { CommandPalette, type PaletteCommand } from './components/CommandPalette'
+import { DataTransfer } from './components/DataTransfer'
+import { LabelChips } from './components/LabelChip'
+import { LabelManager } from './components/LabelManager'
+import { ListSidebar } from './components/ListSidebar'
+import { QuarantineNotice } from './components/QuarantineNotice'
+import { ReminderCenter } from './components/ReminderCenter'
+import { ShortcutHelp } from './components/ShortcutHelp'
+import { SyncBadge, SyncSettings } from './components/SyncSettings'
 import { TaskFilters } from './components/TaskFilters'
 import { TaskList } from './components/TaskList'
+import { TaskNotFound } from './components/TaskNotFound'
 import { TaskEditor, type TaskFormValue } from './components/TaskEditor'
-import { db, type Task, type TaskFilter, type TaskStatus } from './db/database'
+import { TrashView } from './components/TrashView'
+import { Toast, type ToastMessage } from './components/Toast'
+import { WorkflowEditor } from './components/WorkflowEditor'
+import {
+  addDays,
+  arrangeTasks,
+  byBoardPosition,
+  checkWip,
+  columnLabel,
+  columnName,
+  DEFAULT_LIST_ID,
+  DEFAULT_LIST_VIEW,
+  DEFAULT_WORKFLOW,
+  db,
+  describeRecurrence,
+  describeReminder,
+  isDoneStatus,
+  isOverdue,
+  localToday,
+  moveTaskInBoard,
+  moveTasksInBoard,
+  smartListCounts,
+  type SmartListId,
+  type BulkChange,
+  type Label,
+  type LabelInput,
+  type Task,
+  type TaskList as TaskListRecord,
+  type TaskListInput,
+  type TaskFilter,
+  type TaskStatus,
+  type WorkflowColumn,
+} from './db/database'
+import { formatDate, locales, setLocale, type Locale } from './i18n'
+import { useI18n } from './i18n/useI18n'
+import { isTypingTarget } from './keyboard'
+import { toggleSelection } from './selection'
+import { useToday } from './useToday'
+import { updateRoute } from './router'
+import { useRoute } from './router/useRoute'
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+type DropTarget = {
+  task: Task
+  fromStatus: TaskStatus
+  fromIndex: number
+  status: TaskStatus
+  index: number
+  position: number
+}
+
+type OptimisticContext = {
+  previous?: Task[]
+}
 
 function App() {
   const queryClient = useQueryClient()
-  const [selectedId, setSelectedId] = useState<string | undefined>()
-  const [filters, setFilters] = useState<TaskFilter>({ includeDone: true })
-  const statuses: TaskStatus[] = ['todo', 'in-progress', 'done']
-  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }))
+  const { locale, t } = useI18n()
+  const route = useRoute()
+  const { taskId: selectedId, listId: activeListId, filters } = route
+  const showTrash = route.view === 'trash'
+  const today = useToday()
+  const [toast, setToast] = useState<ToastMessage | undefined>()
+  const [overlay, setOverlay] = useState<'palette' | 'help' | null>(null)
+  const [focusTarget, setFocusTarget] = useState<{ id: string; status: TaskStatus }>()
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(() => new Set())
+  const [checkAnchor, setCheckAnchor] = useState<string | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  )
 
   const tasksQuery = useQuery({ queryKey: ['tasks'], queryFn: () => db.getTasks() })
+  const trashQuery = useQuery({ queryKey: ['tasks', 'trash'], queryFn: () => db.getTrash() })
+
+  const labelsQuery = useQuery({ queryKey: ['labels'], queryFn: () => db.getLabels() })
+  const labels = useMemo(() => labelsQuery.data ?? [], [labelsQuery.data])
+
+  const listsQuery = useQuery({ queryKey: ['lists'], queryFn: () => db.getLists() })
+  const lists = useMemo(() => listsQuery.data ?? [], [listsQuery.data])
+
+  const workflowQuery = useQuery({ queryKey: ['workflow'], queryFn: () => db.getWorkflow() })
+  const workflow = workflowQuery.data ?? DEFAULT_WORKFLOW
+
+  const listViewQuery = useQuery({ queryKey: ['listView'], queryFn: () => db.getListView() })
+
+  const localeQuery = useQuery({ queryKey: ['locale'], queryFn: () => db.getLocale() })
+  useEffect(() => {
+    if (localeQuery.data) setLocale(localeQuery.data)
+  }, [localeQuery.data])
+
+  useEffect(
+    () =>
+      db.subscribe(() => {
+        queryClient.invalidateQueries({ queryKey: ['tasks'] })
+        queryClient.invalidateQueries({ queryKey: ['labels'] })
+        queryClient.invalidateQueries({ queryKey: ['lists'] })
+        queryClient.invalidateQueries({ queryKey: ['workflow'] })
+      }),
+    [queryClient],
+  )
+
+  useEffect(() => {
+    const purge = () => {
+      void db.purgeExpired().catch(() => undefined)
+    }
+    const timer = window.setInterval(purge, PURGE_INTERVAL_MS)
+    window.addEventListener('focus', purge)
+    return () => {
+      window.clearInterval(timer)
+      window.removeEventListener('focus', purge)
+    }
+  }, [])
 
   const filteredTasks = useMemo(() => {
     if (!tasksQuery.data) return []
-    return db.applyFilters(tasksQuery.data, filters)
-  }, [filters, tasksQuery.data])
+    return db.applyFilters(tasksQuery.data, { ...filters, listId: activeListId }, new Date(), today)
+  }, [activeListId, filters, tasksQuery.data, today])
+
+  const listCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    for (const task of tasksQuery.data ?? []) {
+      if (!isDoneStatus(workflow, task.status)) counts[task.listId] = (counts[task.listId] ?? 0) + 1
+    }
+    return counts
+  }, [tasksQuery.data, workflow])
+
+  const smartCounts = useMemo(() => smartListCounts(tasksQuery.data ?? [], workflow, today), [tasksQuery.data, workflow, today])
 
   const selectedTask = useMemo(() => {
     if (!tasksQuery.data) return undefined
@@ -29,45 +169,287 @@ function App() {
   }, [selectedId, tasksQuery.data])
 
   const statusBuckets = useMemo(() => {
-    const base = { todo: [] as Task[], 'in-progress': [] as Task[], done: [] as Task[] }
+    const base: Record<TaskStatus, Task[]> = Object.fromEntries(workflow.columns.map((column) => [column.id, [] as Task[]]))
     for (const task of filteredTasks) {
-      base[task.status].push(task)
+      base[task.status]?.push(task)
     }
-    statuses.forEach((status) => {
-      base[status].sort((a, b) => a.order - b.order)
+    Object.values(base).forEach((bucket) => {
+      bucket.sort((a, b) => a.listId.localeCompare(b.listId) || a.order - b.order)
     })
     return base
-  }, [filteredTasks])
+  }, [filteredTasks, workflow])
+
+  const checkedTasks = useMemo(() => filteredTasks.filter((task) => checkedIds.has(task.id)), [checkedIds, filteredTasks])
+
+  const entering = (moving: Task[], status: TaskStatus) => moving.filter((task) => task.status !== status).length
+
+  const wipCheck = (status: TaskStatus, adding: number) => {
+    if (adding === 0) return undefined
+    const boardTasks = (tasksQuery.data ?? []).filter((item) => activeListId === 'all' || item.listId === activeListId)
+    return checkWip(workflow, boardTasks, status, adding)
+  }
+
+  const admitsStatus = (status: TaskStatus, adding: number) => {
+    const wip = wipCheck(status, adding)
+    if (!wip?.exceeded) return true
+    const name = columnName(workflow, wip.column.id)
+    if (wip.column.wipMode === 'block') {
+      setToast({ id: crypto.randomUUID(), tone: 'error', message: t.toast.wipBlocked(name, wip.column.wipLimit ?? 0) })
+      return false
+    }
+    setToast({ id: crypto.randomUUID(), tone: 'warning', message: t.toast.wipExceeded(name, wip.column.wipLimit ?? 0) })
+    return true
+  }
+
+  const admitsTasks = (moving: Task[], status: TaskStatus) => admitsStatus(status, entering(moving, status))
+
+  const admitsTask = (task: Task, status: TaskStatus) => admitsTasks([task], status)
+
+  const applyOptimistic = async (update: (tasks: Task[]) => Task[]): Promise<OptimisticContext> => {
+    await queryClient.cancelQueries({ queryKey: ['tasks'] })
+    const previous = queryClient.getQueryData<Task[]>(['tasks'])
+    if (previous) queryClient.setQueryData<Task[]>(['tasks'], update(previous))
+    return { previous }
+  }
+
+  const showError = (message: string) => (error: Error) => {
+    setToast({ id: crypto.randomUUID(), tone: 'error', message: `${message}: ${error.message}` })
+  }
+
+  const rollback = (message: string) => (error: Error, _variables: unknown, context?: OptimisticContext) => {
+    if (context?.previous) queryClient.setQueryData(['tasks'], context.previous)
+    showError(message)(error)
+  }
+
+  const settle = () => queryClient.invalidateQueries({ queryKey: ['tasks'] })
 
   const createTask = useMutation({
-    mutationFn: (input: TaskFormValue) => db.addTask(input),
+    mutationFn: (input: TaskFormValue & { myDayDate?: string | null }) => db.addTask(input),
+    onMutate: (input) =>
+      applyOptimistic((tasks) => {
+        const timestamp = new Date().toISOString()
+        const order = tasks.filter((task) => task.listId === input.listId && task.status === input.status).length
+        return [
+          ...tasks,
+          {
+            id: `optimistic-${crypto.randomUUID()}`,
+            ...input,
+            description: input.description ?? '',
+            seriesId: null,
+            myDayDate: input.myDayDate ?? null,
+            deletedAt: null,
+            order,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          },
+        ]
+      }),
     onSuccess: (created) => {
-      setSelectedId(created.id)
-      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      updateRoute({ view: 'board', taskId: created.id })
     },
+    onError: rollback(t.toast.addTaskFailed),
+    onSettled: settle,
   })
 
   const updateTask = useMutation({
     mutationFn: (payload: { id: string; updates: TaskFormValue }) => db.updateTask({ id: payload.id, ...payload.updates }),
+    onMutate: ({ id, updates }) =>
+      applyOptimistic((tasks) =>
+        tasks.map((task) => (task.id === id ? { ...task, ...updates, updatedAt: new Date().toISOString() } : task)),
+      ),
     onSuccess: (_, variables) => {
-      setSelectedId(variables.id)
-      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      updateRoute({ view: 'board', taskId: variables.id }, { replace: true })
     },
+    onError: rollback(t.toast.updateTaskFailed),
+    onSettled: settle,
   })
 
   const deleteTask = useMutation({
     mutationFn: (id: string) => db.deleteTask(id),
+    onMutate: (id) => {
+      if (selectedId === id) updateRoute({ taskId: undefined }, { replace: true })
+      return applyOptimistic((tasks) => tasks.filter((task) => task.id !== id))
+    },
+    onSuccess: (_, id, context) => {
+      const removed = context?.previous?.find((task) => task.id === id)
+      setToast({
+        id: crypto.randomUUID(),
+        message: t.toast.movedToTrash(removed?.title),
+        actionLabel: t.common.undo,
+        onAction: () => undo(),
+      })
+    },
+    onError: rollback(t.toast.deleteTaskFailed),
+    onSettled: settle,
+  })
+
+  const updateTasks = useMutation({
+    mutationFn: (payload: { ids: string[]; change: BulkChange }) => db.updateTasks(payload.ids, payload.change),
+    onMutate: ({ ids, change }) =>
+      applyOptimistic((tasks) =>
+        tasks.map((task) =>
+          ids.includes(task.id)
+            ? {
+                ...task,
+                status: change.status ?? task.status,
+                priority: change.priority ?? task.priority,
+                dueDate: change.dueShiftDays && task.dueDate ? addDays(task.dueDate, change.dueShiftDays) : task.dueDate,
+                myDayDate: change.myDay === undefined ? task.myDayDate : change.myDay ? today : null,
+                updatedAt: new Date().toISOString(),
+              }
+            : task,
+        ),
+      ),
+    onError: rollback(t.toast.updateTaskFailed),
+    onSettled: settle,
+  })
+
+  const deleteTasks = useMutation({
+    mutationFn: (ids: string[]) => db.deleteTasks(ids),
+    onMutate: (ids) => {
+      if (selectedId && ids.includes(selectedId)) updateRoute({ taskId: undefined }, { replace: true })
+      setCheckedIds(new Set())
+      return applyOptimistic((tasks) => tasks.filter((task) => !ids.includes(task.id)))
+    },
+    onSuccess: (_, ids) => {
+      setToast({
+        id: crypto.randomUUID(),
+        message: t.toast.movedManyToTrash(ids.length),
+        actionLabel: t.common.undo,
+        onAction: () => undo(),
+      })
+    },
+    onError: rollback(t.toast.deleteTaskFailed),
+    onSettled: settle,
+  })
+
+  const createLabel = useMutation({
+    mutationFn: (input: LabelInput) => db.addLabel(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['labels'] }),
+    onError: showError(t.toast.createLabelFailed),
+  })
+
+  const updateLabel = useMutation({
+    mutationFn: (payload: { id: string; input: Partial<LabelInput> }) => db.updateLabel(payload.id, payload.input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['labels'] }),
+    onError: showError(t.toast.updateLabelFailed),
+  })
+
+  const deleteLabel = useMutation({
+    mutationFn: (id: string) => db.deleteLabel(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['labels'] })
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+    },
+    onError: showError(t.toast.deleteLabelFailed),
+  })
+
+  const createList = useMutation({
+    mutationFn: (input: TaskListInput) => db.addList(input),
+    onSuccess: (created) => {
+      updateRoute({ view: 'board', taskId: undefined, listId: created.id })
+      queryClient.invalidateQueries({ queryKey: ['lists'] })
+    },
+    onError: showError(t.toast.createListFailed),
+  })
+
+  const updateList = useMutation({
+    mutationFn: (payload: { id: string; input: Partial<TaskListInput> }) => db.updateList(payload.id, payload.input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['lists'] }),
+    onError: showError(t.toast.updateListFailed),
+  })
+
+  const deleteList = useMutation({
+    mutationFn: (id: string) => db.deleteList(id),
     onSuccess: (_, id) => {
-      if (selectedId === id) setSelectedId(undefined)
+      if (activeListId === id) updateRoute({ listId: DEFAULT_LIST_ID }, { replace: true })
+      queryClient.invalidateQueries({ queryKey: ['lists'] })
       queryClient.invalidateQueries({ queryKey: ['tasks'] })
     },
+    onError: showError(t.toast.deleteListFailed),
   })
 
+  const skipOccurrence = useMutation({
+    mutationFn: (id: string) => db.skipOccurrence(id),
+    onError: rollback(t.toast.skipFailed),
+    onSettled: settle,
+  })
+
+  const endSeries = useMutation({
+    mutationFn: (id: string) => db.endSeries(id),
+    onError: rollback(t.toast.endSeriesFailed),
+    onSettled: settle,
+  })
+
+  const { mutate: undo } = useMutation({
+    mutationFn: () => db.undo(),
+    onSuccess: (entry) => {
+      if (!entry) return
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      setToast({ id: entry.id, message: t.toast.undone(entry.label), actionLabel: t.common.redo, onAction: () => redo() })
+    },
+    onError: showError(t.toast.undoFailed),
+    onSettled: settle,
+  })
+
+  const { mutate: redo } = useMutation({
+    mutationFn: () => db.redo(),
+    onSuccess: (entry) => {
+      if (!entry) return
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      setToast({ id: entry.id, message: t.toast.redone(entry.label), actionLabel: t.common.undo, onAction: () => undo() })
+    },
+    onError: showError(t.toast.redoFailed),
+    onSettled: settle,
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return
+      if (isTypingTarget(event.target)) return
+      event.preventDefault()
+      if (event.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  const saveLocale = useMutation({
+    mutationFn: (next: Locale) => db.setLocale(next),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['locale'] }),
+  })
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next)
+    saveLocale.mutate(next)
+  }
+
+  const dismissToast = useCallback(() => setToast(undefined), [])
+
+  const openTask = useCallback((id: string) => updateRoute({ view: 'board', taskId: id }), [])
+
+  const openList = (listId: string) =>
+    updateRoute({ view: 'board', taskId: undefined, listId, filters: { ...filters, smartList: undefined } })
+
+  const openSmartList = (smartList: SmartListId) =>
+    updateRoute({ view: 'board', taskId: undefined, listId: 'all', filters: { ...filters, smartList } })
+
+  const openTrash = () => updateRoute({ view: 'trash', taskId: undefined })
+
+  const changeFilters = (next: TaskFilter) => updateRoute({ filters: next }, { replace: true })
+
   const handleCreate = (input: TaskFormValue) => {
-    createTask.mutate(input)
+    if (!admitsStatus(input.status, 1)) return
+    createTask.mutate(filters.smartList === 'myDay' ? { ...input, myDayDate: today } : input)
   }
 
   const handleUpdate = (id: string, updates: TaskFormValue) => {
+    const task = tasksQuery.data?.find((item) => item.id === id)
+    if (task && updates.status !== task.status && !admitsTask(task, updates.status)) return
     updateTask.mutate({ id, updates })
   }
 
@@ -76,80 +458,253 @@ function App() {
     description: task.description ?? '',
     priority: task.priority,
     status: task.status,
+    listId: task.listId,
     dueDate: task.dueDate ?? '',
+    checklist: task.checklist,
+    completeWhenChecklistDone: task.completeWhenChecklistDone,
+    labelIds: task.labelIds,
+    recurrence: task.recurrence,
+    reminder: task.reminder,
   })
 
   const handleStatusChange = (task: Task, status: TaskStatus) => {
     handleUpdate(task.id, { ...toFormValue(task), status })
   }
 
-  const persistBuckets = async (buckets: Record<TaskStatus, Task[]>) => {
-    if (!tasksQuery.data) return
-    const updates: Promise<unknown>[] = []
-
-    statuses.forEach((status) => {
-      const originals = tasksQuery.data
-        .filter((task) => task.status === status)
-        .sort((a, b) => a.order - b.order)
-
-      const reservedIds = new Set(buckets[status].map((task) => task.id))
-      const untouched = originals.filter((task) => !reservedIds.has(task.id))
-      const ordered = [...buckets[status], ...untouched]
-
-      ordered.forEach((task, index) => {
-        const original = tasksQuery.data.find((t) => t.id === task.id)
-        const needsUpdate = !original || original.status !== status || original.order !== index
-        if (needsUpdate) {
-          updates.push(db.updateTask({ id: task.id, status, order: index }))
-        }
-      })
-    })
+  const cyclePriority = (task: Task) => {
+    const next = priorityCycle[(priorityCycle.indexOf(task.priority) + 1) % priorityCycle.length]
+    handleUpdate(task.id, { ...toFormValue(task), priority: next })
+  }
 
-    if (updates.length) {
-      await Promise.all(updates)
-      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+  const handleBulkChange = (change: BulkChange) => {
+    if (change.status && !admitsTasks(checkedTasks, change.status)) return
+    updateTasks.mutate({ ids: checkedTasks.map((task) => task.id), change })
+  }
+
+  const handleCardCheck = (id: string, range: boolean) => {
+    const order = workflow.columns.flatMap((column) => statusBuckets[column.id].map((task) => task.id))
+    setCheckedIds(toggleSelection(checkedIds, order, id, checkAnchor, range))
+    setCheckAnchor(id)
+  }
+
+  const confirmDelete = (task: Task) => {
+    if (window.confirm(t.common.confirmTrash(task.title))) deleteTask.mutate(task.id)
+  }
+
+  const startNewTask = () => {
+    updateRoute({ view: 'board', taskId: undefined })
+    focusElement('task-title')
+  }
+
+  const focusSearch = () => {
+    updateRoute({ view: 'board' })
+    focusElement('task-search')
+  }
+
+  const moveSelection = (step: number) => {
+    const ordered = arrangeTasks(filteredTasks, listViewQuery.data ?? DEFAULT_LIST_VIEW, workflow, localToday()).flatMap((group) =>
+      group.collapsed ? [] : group.tasks,
+    )
+    if (ordered.length === 0) return
+    const index = ordered.findIndex((task) => task.id === selectedId)
+    const next = index === -1 ? (step > 0 ? 0 : ordered.length - 1) : Math.min(ordered.length - 1, Math.max(0, index + step))
+    openTask(ordered[next].id)
+    document.getElementById(`task-${ordered[next].id}`)?.scrollIntoView({ block: 'nearest' })
+  }
+
+  const handleShortcut = useEffectEvent((event: KeyboardEvent) => {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault()
+      setOverlay((current) => (current === 'palette' ? null : 'palette'))
+      return
+    }
+    if (overlay || event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return
+
+    const column = /^[1-9]$/.test(event.key) ? workflow.columns[Number(event.key) - 1] : undefined
+    if (column) {
+      if (selectedTask) handleStatusChange(selectedTask, column.id)
+      return
+    }
+    switch (event.key) {
+      case 'n':
+        event.preventDefault()
+        startNewTask()
+        break
+      case 'j':
+        moveSelection(1)
+        break
+      case 'k':
+        moveSelection(-1)
+        break
+      case 'e':
+        event.preventDefault()
+        focusElement('task-title')
+        break
+      case 'p':
+        if (selectedTask) cyclePriority(selectedTask)
+        break
+      case 'Delete':
+        if (selectedTask) confirmDelete(selectedTask)
+        break
+      case '/':
+        event.preventDefault()
+        focusSearch()
+        break
+      case '?':
+        setOverlay('help')
+        break
     }
+  })
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleShortcut)
+    return () => window.removeEventListener('keydown', handleShortcut)
+  }, [])
+
+  const paletteCommands = (): PaletteCommand[] => {
+    const actions: PaletteCommand[] = [
+      { id: 'new-task', group: 'actions', label: t.palette.newTask, hint: 'n', run: startNewTask },
+      { id: 'search', group: 'actions', label: t.palette.search, hint: '/', run: focusSearch },
+      { id: 'undo', group: 'actions', label: t.common.undo, hint: 'Ctrl+Z', run: () => undo() },
+      { id: 'redo', group: 'actions', label: t.common.redo, hint: 'Ctrl+Shift+Z', run: () => redo() },
+      { id: 'trash', group: 'actions', label: t.palette.openTrash, run: openTrash },
+      { id: 'help', group: 'actions', label: t.palette.help, hint: '?', run: () => setOverlay('help') },
+      ...lists.map((list): PaletteCommand => ({
+        id: `list-${list.id}`,
+        group: 'actions',
+        label: t.palette.openList(`${list.icon} ${list.name}`),
+        run: () => openList(list.id),
+      })),
+    ]
+    if (selectedTask) {
+      actions.push(
+        ...workflow.columns.map((column, index): PaletteCommand => ({
+          id: `status-${column.id}`,
+          group: 'actions',
+          label: t.palette.setStatus(columnName(workflow, column.id)),
+          hint: index < 9 ? String(index + 1) : undefined,
+          run: () => handleStatusChange(selectedTask, column.id),
+        })),
+        { id: 'priority', group: 'actions', label: t.palette.cyclePriority, hint: 'p', run: () => cyclePriority(selectedTask) },
+        { id: 'delete', group: 'actions', label: t.palette.deleteSelected, hint: 'Del', run: () => confirmDelete(selectedTask) },
+      )
+    }
+    const tasks = (tasksQuery.data ?? []).map((task): PaletteCommand => ({
+      id: `task-${task.id}`,
+      group: 'tasks',
+      label: task.title,
+      hint: `${lists.find((list) => list.id === task.listId)?.name ?? ''} ・ ${columnName(workflow, task.status)}`,
+      run: () => openTask(task.id),
+    }))
+    return [...actions, ...tasks]
+  }
+
+  const moveTask = useMutation({
+    mutationFn: (payload: { id: string; status: TaskStatus; index: number }) => db.moveTask(payload.id, payload.status, payload.index),
+    onMutate: ({ id, status, index }) =>
+      applyOptimistic((tasks) => moveTaskInBoard(tasks, id, status, index, new Date().toISOString())),
+    onError: rollback(t.toast.moveTaskFailed),
+    onSettled: settle,
+  })
+
+  const moveTasks = useMutation({
+    mutationFn: (payload: { ids: string[]; status: TaskStatus; index: number }) => db.moveTasks(payload.ids, payload.status, payload.index),
+    onMutate: ({ ids, status, index }) =>
+      applyOptimistic((tasks) => moveTasksInBoard(tasks, ids, status, index, new Date().toISOString())),
+    onError: rollback(t.toast.moveTaskFailed),
+    onSettled: settle,
+  })
+
+  const draggedTasks = (task: Task) => {
+    if (!checkedIds.has(task.id) || checkedTasks.length < 2) return [task]
+    const byPosition = byBoardPosition(workflow)
+    return [...checkedTasks].sort((a, b) => Number(b.listId === task.listId) - Number(a.listId === task.listId) || byPosition(a, b))
   }
 
-  const handleDragEnd = async (event: DragEndEvent) => {
-    const { active, over } = event
+  const resolveDrop = (active: Active, over: Over | null): DropTarget | undefined => {
     if (!over || !tasksQuery.data) return
 
     const activeId = String(active.id)
     const overId = String(over.id)
-    const activeTask = tasksQuery.data.find((task) => task.id === activeId)
-    if (!activeTask) return
+    const task = tasksQuery.data.find((item) => item.id === activeId)
+    if (!task) return
 
-    const sourceStatus = (active.data.current?.sortable?.containerId as TaskStatus | undefined) ?? activeTask.status
-    const overContainer = (over.data.current?.sortable?.containerId as TaskStatus | undefined) ??
+    const fromStatus = (active.data.current?.sortable?.containerId as TaskStatus | undefined) ?? task.status
+    const status = (over.data.current?.sortable?.containerId as TaskStatus | undefined) ??
       (overId.startsWith('column-') ? (overId.replace('column-', '') as TaskStatus) : undefined)
 
-    if (!overContainer) return
-
-    const nextBuckets: Record<TaskStatus, Task[]> = {
-      todo: [...statusBuckets.todo],
-      'in-progress': [...statusBuckets['in-progress']],
-      done: [...statusBuckets.done],
-    }
+    if (!status || !statusBuckets[status] || !statusBuckets[fromStatus]) return
 
-    const sourceList = nextBuckets[sourceStatus]
-    const fromIndex = sourceList.findIndex((task) => task.id === activeId)
+    const fromIndex = statusBuckets[fromStatus].findIndex((item) => item.id === activeId)
     if (fromIndex === -1) return
 
-    let targetIndex = over.data.current?.sortable?.index
-    if (typeof targetIndex !== 'number') {
-      targetIndex = nextBuckets[overContainer].length
-    }
+    const overIndex = over.data.current?.sortable?.index
+    const index = typeof overIndex === 'number' ? overIndex : statusBuckets[status].length
+    const position = Math.min(index, statusBuckets[status].length - (status === fromStatus ? 1 : 0))
+    return { task, fromStatus, fromIndex, status, index, position }
+  }
 
-    if (sourceStatus === overContainer) {
-      if (fromIndex === targetIndex) return
-      nextBuckets[overContainer] = arrayMove(sourceList, fromIndex, targetIndex)
-    } else {
-      const [moved] = sourceList.splice(fromIndex, 1)
-      nextBuckets[overContainer].splice(targetIndex, 0, { ...moved, status: overContainer })
-    }
+  const describeDrop = (drop: DropTarget) => t.dnd.position(columnName(workflow, drop.status), drop.position + 1)
 
-    await persistBuckets(nextBuckets)
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => {
+      const task = tasksQuery.data?.find((item) => item.id === String(active.id))
+      return task ? t.dnd.pickedUp(task.title, columnName(workflow, task.status)) : undefined
+    },
+    onDragOver: ({ active, over }) => {
+      const drop = resolveDrop(active, over)
+      const title = tasksQuery.data?.find((item) => item.id === String(active.id))?.title ?? ''
+      return drop ? t.dnd.over(title, describeDrop(drop)) : t.dnd.outside(title)
+    },
+    onDragEnd: ({ active, over }) => {
+      const drop = resolveDrop(active, over)
+      if (!drop) return t.dnd.cancelled()
+      if (drop.status === drop.fromStatus && drop.fromIndex === drop.index) return t.dnd.unchanged(drop.task.title)
+      const moving = draggedTasks(drop.task)
+      const wip = wipCheck(drop.status, entering(moving, drop.status))
+      if (wip?.exceeded && wip.column.wipMode === 'block') {
+        return t.dnd.blocked(columnName(workflow, wip.column.id), drop.task.title)
+      }
+      return moving.length > 1 ? t.dnd.movedMany(moving.length, describeDrop(drop)) : t.dnd.moved(drop.task.title, describeDrop(drop))
+    },
+    onDragCancel: ({ active }) => {
+      const task = tasksQuery.data?.find((item) => item.id === String(active.id))
+      return t.dnd.cancelled(task?.title)
+    },
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setDraggingId(null)
+    const drop = resolveDrop(event.active, event.over)
+    const activeId = String(event.active.id)
+    const current = tasksQuery.data?.find((task) => task.id === activeId)
+    if (current) setFocusTarget({ id: activeId, status: current.status })
+    if (!drop || !tasksQuery.data) return
+
+    const { task: activeTask, status: overContainer, index: targetIndex } = drop
+    if (drop.fromStatus === overContainer && drop.fromIndex === targetIndex) return
+    const moving = draggedTasks(activeTask)
+    const movingIds = new Set(moving.map((task) => task.id))
+    if (!admitsTasks(moving, overContainer)) return
+
+    const visible = statusBuckets[overContainer].filter((task) => !movingIds.has(task.id) && task.listId === activeTask.listId)
+    const all = tasksQuery.data
+      .filter((task) => task.listId === activeTask.listId && task.status === overContainer && !movingIds.has(task.id))
+      .sort((a, b) => a.order - b.order)
+    const anchor = statusBuckets[overContainer]
+      .filter((task) => task.id !== activeId)
+      .slice(targetIndex)
+      .find((task) => task.listId === activeTask.listId && !movingIds.has(task.id))
+    const last = visible[visible.length - 1]
+    const index = anchor
+      ? all.findIndex((task) => task.id === anchor.id)
+      : last
+        ? all.findIndex((task) => task.id === last.id) + 1
+        : all.length
+
+    setFocusTarget({ id: activeId, status: overContainer })
+    if (moving.length > 1) moveTasks.mutate({ ids: moving.map((task) => task.id), status: overContainer, index })
+    else moveTask.mutate({ id: activeId, status: overContainer, index })
   }
 
   return (
@@ -159,70 +714,170 @@ function App() {
           <p className="eyebrow">TanStack DB + React + Zod</p>
           <h1>Modern ToDo</h1>
           <p className="lede">
-            Google ToDo の軽さ、Microsoft To Do の実用性、GitHub Issues のステータス管理。すべてブラウザだけで完結。
+            {t.app.lede}
           </p>
         </div>
         <div className="meta">
-          <span className="badge">IndexedDB / localStorage 永続化</span>
-          <span className="badge-outline">オフライン対応</span>
+          <span className="badge">{t.app.persisted(t.storage[db.storageKind])}</span>
+          <NetworkBadge />
+          <SyncBadge />
+          <button className="ghost" onClick={() => setOverlay('help')}>
+            {t.app.shortcuts}
+          </button>
+          <select aria-label={t.app.language} value={locale} onChange={(e) => changeLocale(e.target.value as Locale)}>
+            {(Object.keys(locales) as Locale[]).map((item) => (
+              <option key={item} value={item}>
+                {locales[item].name}
+              </option>
+            ))}
+          </select>
         </div>
       </header>
 
-      <div className="layout">
-        <TaskList
-          tasks={filteredTasks}
-          selectedId={selectedId}
-          onSelect={(id) => setSelectedId(id)}
-          onCreate={() => setSelectedId(undefined)}
-          onDelete={(id) => deleteTask.mutate(id)}
+      <QuarantineNotice />
+      <ReminderCenter onOpenTask={openTask} />
+      {!showTrash && (
+        <BulkActions
+          tasks={checkedTasks}
+          columns={workflow.columns}
+          busy={updateTasks.isPending || deleteTasks.isPending}
+          onChange={handleBulkChange}
+          onDelete={() => deleteTasks.mutate(checkedTasks.map((task) => task.id))}
+          onClear={() => setCheckedIds(new Set())}
         />
+      )}
 
-        <section className="panel board">
-          <div className="panel-header">
-            <div>
-              <h3>ボードビュー</h3>
-              <p className="panel-subtitle">GitHub Issues のようにステータスを俯瞰</p>
-            </div>
-          </div>
-          <DndContext sensors={sensors} collisionDetection={closestCorners} onDragEnd={handleDragEnd}>
-            <div className="board-grid">
-              {statuses.map((status) => (
-                <BoardColumn key={status} status={status} count={statusBuckets[status].length}>
-                  <SortableContext id={status} items={statusBuckets[status].map((task) => task.id)} strategy={verticalListSortingStrategy}>
-                    {statusBuckets[status].length === 0 && <p className="empty">なし</p>}
-                    {statusBuckets[status].map((task) => (
-                      <SortableCard key={task.id} task={task} onSelect={(id) => setSelectedId(id)} onStatusChange={handleStatusChange} />
-                    ))}
-                  </SortableContext>
-                </BoardColumn>
-              ))}
-            </div>
-          </DndContext>
-          <TaskFilters value={filters} onChange={setFilters} />
-        </section>
-
-        <TaskEditor
-          task={selectedTask}
-          onCreate={handleCreate}
-          onUpdate={handleUpdate}
-          onDelete={(id) => deleteTask.mutate(id)}
+      <div className="layout">
+        <ListSidebar
+          lists={lists}
+          activeListId={activeListId}
+          counts={listCounts}
+          smartCounts={smartCounts}
+          activeSmartList={filters.smartList}
+          trashCount={trashQuery.data?.length ?? 0}
+          trashActive={showTrash}
+          onSelect={openList}
+          onSelectSmart={openSmartList}
+          onOpenTrash={openTrash}
+          onCreate={(input) => createList.mutate(input)}
+          onUpdate={(id, input) => updateList.mutate({ id, input })}
+          onDelete={(id) => deleteList.mutate(id)}
         />
+
+        {showTrash ? (
+          <TrashView lists={lists} />
+        ) : (
+          <>
+            <TaskList
+              tasks={filteredTasks}
+              labels={labels}
+              workflow={workflow}
+              selectedId={selectedId}
+              checkedIds={checkedIds}
+              onSelect={openTask}
+              onCheckedChange={setCheckedIds}
+              onCreate={() => updateRoute({ taskId: undefined })}
+              onDelete={(id) => deleteTask.mutate(id)}
+            />
+
+            <section className="panel board">
+              <div className="panel-header">
+                <div>
+                  <h3>{t.board.title}</h3>
+                  <p className="panel-subtitle">{t.board.subtitle}</p>
+                </div>
+              </div>
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCorners}
+                accessibility={{ announcements, screenReaderInstructions: { draggable: t.dnd.instructions }, restoreFocus: false }}
+                onDragStart={({ active }) => {
+                  setFocusTarget(undefined)
+                  setDraggingId(String(active.id))
+                }}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setDraggingId(null)}
+              >
+                <div className="board-grid">
+                  {workflow.columns.map((column) => (
+                    <BoardColumn
+                      key={column.id}
+                      column={column}
+                      count={statusBuckets[column.id].length}
+                      total={(tasksQuery.data ?? []).filter((task) => task.status === column.id && (activeListId === 'all' || task.listId === activeListId)).length}
+                    >
+                      <SortableContext id={column.id} items={statusBuckets[column.id].map((task) => task.id)} strategy={verticalListSortingStrategy}>
+                        {statusBuckets[column.id].length === 0 && <p className="empty">{t.board.empty}</p>}
+                        {statusBuckets[column.id].map((task) => (
+                          <SortableCard
+                            key={task.id}
+                            task={task}
+                            list={activeListId === 'all' ? lists.find((list) => list.id === task.listId) : undefined}
+                            labels={labels}
+                            columns={workflow.columns}
+                            overdue={isOverdue(task, today, workflow)}
+                            checked={checkedIds.has(task.id)}
+                            dragCount={draggingId === task.id ? draggedTasks(task).length : 0}
+                            companion={
+                              draggingId !== null && draggingId !== task.id && checkedIds.has(draggingId) && checkedIds.has(task.id)
+                            }
+                            focusHandle={focusTarget?.id === task.id && focusTarget.status === task.status}
+                            onHandleFocused={() => setFocusTarget(undefined)}
+                            onSelect={openTask}
+                            onStatusChange={handleStatusChange}
+                            onCheck={handleCardCheck}
+                          />
+                        ))}
+                      </SortableContext>
+                    </BoardColumn>
+                  ))}
+                </div>
+              </DndContext>
+              <TaskFilters value={filters} labels={labels} columns={workflow.columns} onChange={changeFilters} />
+              <WorkflowEditor workflow={workflow} />
+              <LabelManager
+                labels={labels}
+                onUpdate={(id, input) => updateLabel.mutate({ id, input })}
+                onDelete={(id) => deleteLabel.mutate(id)}
+              />
+              <DataTransfer />
+              <SyncSettings />
+            </section>
+          </>
+        )}
+
+        {selectedId && tasksQuery.isSuccess && !selectedTask ? (
+          <TaskNotFound taskId={selectedId} onBack={() => updateRoute({ taskId: undefined })} />
+        ) : (
+          <TaskEditor
+            task={selectedTask}
+            lists={lists}
+            defaultListId={activeListId === 'all' ? DEFAULT_LIST_ID : activeListId}
+            labels={labels}
+            workflow={workflow}
+            inMyDay={selectedTask?.myDayDate === today}
+            onCreateLabel={(input) => createLabel.mutateAsync(input)}
+            onCreate={handleCreate}
+            onUpdate={handleUpdate}
+            onDelete={(id) => deleteTask.mutate(id)}
+            onSkipOccurrence={(id) => skipOccurrence.mutate(id)}
+            onEndSeries={(id) => endSeries.mutate(id)}
+            onToggleMyDay={(id, myDay) => updateTasks.mutate({ ids: [id], change: { myDay } })}
+          />
+        )}
       </div>
+
+      <Toast toast={toast} onDismiss={dismissToast} />
+      <UpdatePrompt />
+      {overlay === 'palette' && <CommandPalette commands={paletteCommands()} onClose={() => setOverlay(null)} />}
+      {overlay === 'help' && <ShortcutHelp onClose={() => setOverlay(null)} />}
     </div>
   )
 }
 
-const statusLabel: Record<Task['status'], string> = {
-  todo: '未着手',
-  'in-progress': '進行中',
-  done: '完了',
-}
+const focusElement = (id: string) => requestAnimationFrame(() => document.getElementById(id)?.focus())
 
-const priorityLabel: Record<Task['priority'], string> = {
-  low: '低',
-  medium: '中',
-  high: '高',
-}
+const priorityCycle: Task['priority'][] = ['low', 'medium', 'high']
 
 const priorityTone: Record<Task['priority'], string> = {
   low: 'soft',
@@ -232,12 +887,44 @@ const priorityTone: Record<Task['priority'], string> = {
 
 type SortableCardProps = {
   task: Task
+  list?: TaskListRecord
+  labels: Label[]
+  columns: WorkflowColumn[]
+  overdue: boolean
+  checked: boolean
+  dragCount: number
+  companion: boolean
+  focusHandle: boolean
+  onHandleFocused: () => void
   onSelect: (id: string) => void
   onStatusChange: (task: Task, status: TaskStatus) => void
+  onCheck: (id: string, range: boolean) => void
 }
 
-function SortableCard({ task, onSelect, onStatusChange }: SortableCardProps) {
-  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: task.id })
+function SortableCard({
+  task,
+  list,
+  labels,
+  columns,
+  overdue,
+  checked,
+  dragCount,
+  companion,
+  focusHandle,
+  onHandleFocused,
+  onSelect,
+  onStatusChange,
+  onCheck,
+}: SortableCardProps) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({ id: task.id })
+  const handleRef = useRef<HTMLButtonElement | null>(null)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    if (!focusHandle) return
+    handleRef.current?.focus()
+    onHandleFocused()
+  }, [focusHandle, onHandleFocused])
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -247,41 +934,87 @@ function SortableCard({ task, onSelect, onStatusChange }: SortableCardProps) {
   }
 
   return (
-    <div ref={setNodeRef} style={style} className="board-card" {...attributes} {...listeners}>
+    <div ref={setNodeRef} style={style} className={`board-card ${overdue ? 'overdue' : ''} ${checked ? 'checked' : ''} ${companion ? 'companion' : ''}`}>
       <div className="board-card-top">
-        <span className={`badge ${priorityTone[task.priority]}`}>{priorityLabel[task.priority]}</span>
-        <select value={task.status} onChange={(e) => onStatusChange(task, e.target.value as TaskStatus)}>
-          <option value="todo">未着手</option>
-          <option value="in-progress">進行中</option>
-          <option value="done">完了</option>
+        <input
+          type="checkbox"
+          aria-label={t.bulk.select(task.title)}
+          checked={checked}
+          onChange={(e) => onCheck(task.id, e.nativeEvent instanceof MouseEvent && e.nativeEvent.shiftKey)}
+        />
+        <button
+          ref={(node) => {
+            handleRef.current = node
+            setActivatorNodeRef(node)
+          }}
+          className="drag-handle"
+          {...attributes}
+          {...listeners}
+          aria-label={t.board.moveHandle(task.title)}
+          aria-roledescription={t.board.roleDescription}
+        >
+          ⠿
+        </button>
+        {dragCount > 1 && <span className="badge drag-count">{t.bulk.dragging(dragCount)}</span>}
+        <span className={`badge ${priorityTone[task.priority]}`}>{t.priority[task.priority]}</span>
+        <select
+          aria-label={t.board.statusOf(task.title)}
+          value={task.status}
+          onChange={(e) => onStatusChange(task, e.target.value)}
+        >
+          {columns.map((column) => (
+            <option key={column.id} value={column.id}>
+              {columnLabel(column)}
+            </option>
+          ))}
         </select>
       </div>
       <button className="link" onClick={() => onSelect(task.id)}>
         {task.title}
       </button>
-      <p className="muted small">{task.description || '詳細なし'}</p>
+      {list && (
+        <span className="list-tag">
+          {list.icon} {list.name}
+        </span>
+      )}
+      <p className="muted small">{task.description || t.board.noDescription}</p>
+      <LabelChips labelIds={task.labelIds} labels={labels} />
       <div className="card-footer">
-        {task.dueDate && <span className="muted">期限: {task.dueDate}</span>}
-        <span className="muted">更新: {new Date(task.updatedAt).toLocaleDateString()}</span>
+        <ChecklistProgress items={task.checklist} />
+        {task.dueDate && <span className={overdue ? 'overdue-date' : 'muted'}>{t.common.due(formatDate(task.dueDate))}</span>}
+        {overdue && <span className="badge-outline overdue-flag">{t.smartLists.overdue}</span>}
+        {task.recurrence && <span title={describeRecurrence(task.recurrence)}>🔁</span>}
+        {task.reminder && task.dueDate && <span title={describeReminder(task.reminder)}>⏰</span>}
+        <span className="muted">{t.common.updated(formatDate(task.updatedAt))}</span>
       </div>
     </div>
   )
 }
 
 type BoardColumnProps = {
-  status: TaskStatus
+  column: WorkflowColumn
   count: number
+  total: number
   children: ReactNode
 }
 
-function BoardColumn({ status, count, children }: BoardColumnProps) {
-  const { setNodeRef, isOver } = useDroppable({ id: `column-${status}` })
+function BoardColumn({ column, count, total, children }: BoardColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: `column-${column.id}` })
+  const overLimit = column.wipLimit !== null && total > column.wipLimit
+  const atLimit = column.wipLimit !== null && total >= column.wipLimit
+  const { t } = useI18n()
 
   return (
-    <div className={`board-column ${isOver ? 'dropping' : ''}`}>
+    <div className={`board-column ${isOver ? 'dropping' : ''} ${overLimit ? 'over-limit' : atLimit ? 'at-limit' : ''}`}>
       <div className="board-column-header">
-        <h4>{statusLabel[status]}</h4>
-        <span className="muted">{count}</span>
+        <h4>{columnLabel(column)}</h4>
+        {column.wipLimit !== null ? (
+          <span className="wip" title={t.board.wipTitle(column.wipLimit, column.wipMode === 'block')}>
+            {total} / {column.wipLimit}
+          </span>
+        ) : (
+          <span className="muted">{count}</span>
+        )}
       </div>
       <div ref={setNodeRef} className="board-column-body">
         {children}
@@ -0,0 +1,68 @@
+import { useQuery } from '@tanstack/react-query'
+import { columnName, db, DEFAULT_WORKFLOW, type ActivityEvent, type Workflow } from '../db/database'
+import { formatDate, formatDateTime, type Messages } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+type ActivityTimelineProps = {
+  taskId: string
+}
+
+const icons: Record<ActivityEvent['type'], string> = {
+  created: '✨',
+  status: '🔄',
+  priority: '⚑',
+  dueDate: '📅',
+  reordered: '↕️',
+  deleted: '🗑️',
+  restored: '♻️',
+}
+
+function describe(event: ActivityEvent, workflow: Workflow, t: Messages) {
+  switch (event.type) {
+    case 'created':
+      return t.activity.created(event.title)
+    case 'status':
+      return t.activity.status(columnName(workflow, event.from), columnName(workflow, event.to))
+    case 'priority':
+      return t.activity.priority(t.priority[event.from], t.priority[event.to])
+    case 'dueDate':
+      if (!event.to) return t.activity.dueCleared(formatDate(event.from ?? ''))
+      return event.from ? t.activity.dueChanged(formatDate(event.from), formatDate(event.to)) : t.activity.dueSet(formatDate(event.to))
+    case 'reordered':
+      return t.activity.reordered(columnName(workflow, event.status), event.from + 1, event.to + 1)
+    case 'deleted':
+      return t.activity.deleted
+    case 'restored':
+      return t.activity.restored
+  }
+}
+
+export function ActivityTimeline({ taskId }: ActivityTimelineProps) {
+  const activityQuery = useQuery({ queryKey: ['tasks', 'activity', taskId], queryFn: () => db.getActivity(taskId) })
+  const workflowQuery = useQuery({ queryKey: ['workflow'], queryFn: () => db.getWorkflow() })
+  const events = activityQuery.data ?? []
+  const workflow = workflowQuery.data ?? DEFAULT_WORKFLOW
+  const { t } = useI18n()
+
+  return (
+    <section className="activity" aria-label={t.activity.title}>
+      <h4>{t.activity.title}</h4>
+      {events.length === 0 && <p className="muted small">{t.activity.empty}</p>}
+      <ol className="timeline">
+        {events.map((event) => (
+          <li key={event.id} className="timeline-item">
+            <span className="timeline-icon" aria-hidden="true">
+              {icons[event.type]}
+            </span>
+            <div>
+              <div className="small">{describe(event, workflow, t)}</div>
+              <time className="muted small" dateTime={event.at}>
+                {formatDateTime(event.at)}
+              </time>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
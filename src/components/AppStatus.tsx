@@ -0,0 +1,37 @@
+import { applyUpdate, dismissUpdate } from '../pwa'
+import { usePwa } from '../pwa/usePwa'
+import { useI18n } from '../i18n/useI18n'
+
+export function NetworkBadge() {
+  const { t } = useI18n()
+  const { online, offlineReady } = usePwa()
+  if (!online) {
+    return (
+      <span className="badge-outline warn" role="status">
+        {t.pwa.offline}
+      </span>
+    )
+  }
+  return (
+    <span className="badge-outline" title={offlineReady ? t.pwa.offlineReady : undefined}>
+      {t.app.offline}
+    </span>
+  )
+}
+
+export function UpdatePrompt() {
+  const { t } = useI18n()
+  const { updateReady } = usePwa()
+  if (!updateReady) return null
+  return (
+    <div className="toast update-prompt" role="status" aria-live="polite">
+      <span>{t.pwa.updateAvailable}</span>
+      <button className="link toast-action" onClick={applyUpdate}>
+        {t.pwa.reload}
+      </button>
+      <button className="link toast-close" onClick={dismissUpdate}>
+        {t.pwa.later}
+      </button>
+    </div>
+  )
+}
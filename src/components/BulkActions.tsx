@@ -0,0 +1,83 @@
+import { columnLabel, type BulkChange, type Task, type TaskPriority, type WorkflowColumn } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+
+const priorities: TaskPriority[] = ['low', 'medium', 'high']
+const shifts = [-1, 1, 7]
+
+type BulkActionsProps = {
+  tasks: Task[]
+  columns: WorkflowColumn[]
+  busy: boolean
+  onChange: (change: BulkChange) => void
+  onDelete: () => void
+  onClear: () => void
+}
+
+export function BulkActions({ tasks, columns, busy, onChange, onDelete, onClear }: BulkActionsProps) {
+  const { t } = useI18n()
+  if (tasks.length === 0) return null
+
+  const hasDueDates = tasks.some((task) => task.dueDate)
+
+  return (
+    <div className="panel bulk-actions" role="toolbar" aria-label={t.bulk.selected(tasks.length)}>
+      <strong>{t.bulk.selected(tasks.length)}</strong>
+      <label className="field inline">
+        <span>{t.bulk.status}</span>
+        <select value="" disabled={busy} onChange={(e) => onChange({ status: e.target.value })}>
+          <option value="" disabled>
+            {t.bulk.change}
+          </option>
+          {columns.map((column) => (
+            <option key={column.id} value={column.id}>
+              {columnLabel(column)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field inline">
+        <span>{t.bulk.priority}</span>
+        <select value="" disabled={busy} onChange={(e) => onChange({ priority: e.target.value as TaskPriority })}>
+          <option value="" disabled>
+            {t.bulk.change}
+          </option>
+          {priorities.map((priority) => (
+            <option key={priority} value={priority}>
+              {t.priority[priority]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="task-actions" role="group" aria-label={t.bulk.shiftDue}>
+        <span className="muted small">{t.bulk.shiftDue}</span>
+        {shifts.map((days) => (
+          <button key={days} className="ghost" disabled={busy || !hasDueDates} onClick={() => onChange({ dueShiftDays: days })}>
+            {t.bulk.shift(days)}
+          </button>
+        ))}
+      </div>
+      <div className="task-actions">
+        <button className="ghost" disabled={busy} onClick={() => onChange({ myDay: true })}>
+          ☀️ {t.smartLists.addToMyDay}
+        </button>
+        <button className="ghost" disabled={busy} onClick={() => onChange({ myDay: false })}>
+          {t.smartLists.removeFromMyDay}
+        </button>
+      </div>
+      <div className="task-actions">
+        <button
+          className="ghost"
+          disabled={busy}
+          onClick={() => {
+            if (window.confirm(t.bulk.confirmDelete(tasks.length))) onDelete()
+          }}
+        >
+          {t.bulk.delete}
+        </button>
+        <button className="link" onClick={onClear}>
+          {t.bulk.clear}
+        </button>
+      </div>
+    </div>
+  )
+}
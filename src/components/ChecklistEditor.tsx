@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import type { ChecklistItem } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+
+type ChecklistEditorProps = {
+  items: ChecklistItem[]
+  onChange: (items: ChecklistItem[]) => void
+}
+
+export function ChecklistEditor({ items, onChange }: ChecklistEditorProps) {
+  const [draft, setDraft] = useState('')
+  const { t } = useI18n()
+
+  const updateItem = (id: string, patch: Partial<ChecklistItem>) => {
+    onChange(items.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= items.length) return
+    const next = [...items]
+    const [moved] = next.splice(index, 1)
+    next.splice(target, 0, moved)
+    onChange(next)
+  }
+
+  const addItem = () => {
+    const title = draft.trim()
+    if (!title) return
+    onChange([...items, { id: crypto.randomUUID(), title, done: false }])
+    setDraft('')
+  }
+
+  return (
+    <div className="field">
+      <span>
+        {t.checklist.title} <ChecklistProgress items={items} />
+      </span>
+      <ul className="checklist">
+        {items.map((item, index) => (
+          <li key={item.id} className="checklist-item">
+            <input
+              type="checkbox"
+              aria-label={t.checklist.complete(item.title)}
+              checked={item.done}
+              onChange={(e) => updateItem(item.id, { done: e.target.checked })}
+            />
+            <input
+              className={item.done ? 'checklist-done' : undefined}
+              value={item.title}
+              onChange={(e) => updateItem(item.id, { title: e.target.value })}
+              onBlur={(e) => {
+                if (!e.target.value.trim()) onChange(items.filter((i) => i.id !== item.id))
+              }}
+            />
+            <button
+              type="button"
+              className="ghost icon"
+              aria-label={t.common.moveUp}
+              disabled={index === 0}
+              onClick={() => moveItem(index, -1)}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="ghost icon"
+              aria-label={t.common.moveDown}
+              disabled={index === items.length - 1}
+              onClick={() => moveItem(index, 1)}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              className="ghost icon"
+              aria-label={t.common.delete}
+              onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="checklist-add">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addItem()
+            }
+          }}
+          placeholder={t.checklist.placeholder}
+        />
+        <button type="button" className="ghost" onClick={addItem}>
+          {t.common.add}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export function ChecklistProgress({ items }: { items: ChecklistItem[] }) {
+  const { t } = useI18n()
+  if (items.length === 0) return null
+  const done = items.filter((item) => item.done).length
+  return (
+    <span className={`badge-outline ${done === items.length ? 'complete' : ''}`} title={t.checklist.progress}>
+      {t.checklist.done(done, items.length)}
+    </span>
+  )
+}
@@ -0,0 +1,97 @@
+import { useState, type KeyboardEvent } from 'react'
+import { useI18n } from '../i18n/useI18n'
+import { fuzzyScore } from '../keyboard'
+
+export type PaletteCommand = {
+  id: string
+  group: 'actions' | 'tasks'
+  label: string
+  hint?: string
+  run: () => void
+}
+
+type CommandPaletteProps = {
+  commands: PaletteCommand[]
+  onClose: () => void
+}
+
+const MAX_RESULTS = 30
+
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const { t } = useI18n()
+
+  const results = commands
+    .map((command) => ({ command, score: fuzzyScore(query, `${command.label} ${command.hint ?? ''}`) }))
+    .filter((result): result is { command: PaletteCommand; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map((result) => result.command)
+  const current = Math.min(active, Math.max(0, results.length - 1))
+
+  const run = (command: PaletteCommand) => {
+    onClose()
+    command.run()
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActive((current + 1) % Math.max(1, results.length))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActive((current - 1 + results.length) % Math.max(1, results.length))
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (results[current]) run(results[current])
+        break
+      case 'Escape':
+        e.preventDefault()
+        onClose()
+        break
+    }
+  }
+
+  return (
+    <div className="overlay" onClick={onClose}>
+      <div className="dialog palette" role="dialog" aria-modal="true" aria-label={t.palette.label} onClick={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setActive(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={t.palette.placeholder}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-results"
+          aria-activedescendant={results[current] ? `palette-${results[current].id}` : undefined}
+        />
+        <ul id="palette-results" className="palette-results" role="listbox">
+          {results.length === 0 && <li className="empty">{t.palette.empty}</li>}
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={`palette-${command.id}`}
+              role="option"
+              aria-selected={index === current}
+              className={`palette-item ${index === current ? 'active' : ''}`}
+              onMouseEnter={() => setActive(index)}
+              onClick={() => run(command)}
+            >
+              <span className="palette-group">{t.palette[command.group]}</span>
+              <span className="palette-label">{command.label}</span>
+              {command.hint && <span className="muted small">{command.hint}</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
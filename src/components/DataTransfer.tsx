@@ -0,0 +1,187 @@
+import { useState, type ChangeEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  db,
+  detectFormat,
+  exportCsv,
+  exportIcs,
+  exportJson,
+  parseImport,
+  previewImport,
+  type ImportBundle,
+  type ImportMode,
+  type ImportOptions,
+  type Task,
+  type TransferFormat,
+} from '../db/database'
+import { downloadFile } from '../download'
+import { formatDate } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+const mimeTypes: Record<TransferFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ics: 'text/calendar',
+}
+
+function download(content: string, format: TransferFormat) {
+  downloadFile(
+    format === 'csv' ? `\uFEFF${content}` : content,
+    `tanstack-todo-${new Date().toISOString().slice(0, 10)}.${format}`,
+    mimeTypes[format],
+  )
+}
+
+type PendingImport = {
+  fileName: string
+  bundle: ImportBundle
+  existing: Task[]
+}
+
+export function DataTransfer() {
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [options, setOptions] = useState<ImportOptions>({ mode: 'merge', duplicates: 'skip' })
+
+  const exportData = useMutation({
+    mutationFn: async (format: TransferFormat) => {
+      const [tasks, labels, lists, workflow] = await Promise.all([
+        db.getTasks({ includeTrashed: format === 'json' }),
+        db.getLabels(),
+        db.getLists(),
+        db.getWorkflow(),
+      ])
+      const content =
+        format === 'json' ? exportJson(tasks, labels, lists, workflow) : format === 'csv' ? exportCsv(tasks) : exportIcs(tasks, workflow)
+      download(content, format)
+    },
+    onSuccess: () => setError(null),
+    onError: (caught: Error) => setError(t.transfer.exportFailed(caught.message)),
+  })
+
+  const importData = useMutation({
+    mutationFn: ({ bundle, options }: { bundle: ImportBundle; options: ImportOptions }) => db.importTasks(bundle, options),
+    onSuccess: () => {
+      setPending(null)
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      queryClient.invalidateQueries({ queryKey: ['labels'] })
+      queryClient.invalidateQueries({ queryKey: ['lists'] })
+      queryClient.invalidateQueries({ queryKey: ['workflow'] })
+    },
+    onError: (caught: Error) => setError(t.transfer.failed(caught.message)),
+  })
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setError(null)
+    importData.reset()
+    try {
+      const text = await file.text()
+      const bundle = parseImport(text, detectFormat(file.name, text))
+      setPending({ fileName: file.name, bundle, existing: await db.getTasks() })
+    } catch (caught) {
+      setPending(null)
+      setError(caught instanceof Error ? caught.message : String(caught))
+    }
+  }
+
+  const rows = pending ? previewImport(pending.bundle, options.mode === 'replace' ? [] : pending.existing) : []
+  const duplicateCount = rows.filter((row) => row.duplicateOf).length
+
+  const handleConfirm = () => {
+    if (!pending) return
+    if (options.mode === 'replace' && !window.confirm(t.transfer.confirmReplace(pending.existing.length))) return
+    importData.mutate({ bundle: pending.bundle, options })
+  }
+
+  return (
+    <div className="panel transfer">
+      <div className="panel-header">
+        <div>
+          <h3>{t.transfer.title}</h3>
+          <p className="panel-subtitle">{t.transfer.subtitle}</p>
+        </div>
+      </div>
+      <div className="task-actions">
+        {(Object.keys(mimeTypes) as TransferFormat[]).map((format) => (
+          <button key={format} className="ghost" onClick={() => exportData.mutate(format)} disabled={exportData.isPending}>
+            {t.transfer.formats[format]}
+          </button>
+        ))}
+      </div>
+      <label className="field">
+        <span>{t.transfer.file}</span>
+        <input type="file" accept=".json,.csv,.ics,application/json,text/csv,text/calendar" onChange={handleFile} />
+      </label>
+      {error && (
+        <p className="search-error" role="alert">
+          {error}
+        </p>
+      )}
+      {importData.data && (
+        <p className="muted small" role="status">
+          {t.transfer.result(importData.data.added, importData.data.updated, importData.data.skipped)}
+        </p>
+      )}
+
+      {pending && (
+        <div className="import-preview">
+          <p className="small">
+            {t.transfer.summary(pending.fileName, rows.length)}
+            {duplicateCount > 0 && t.transfer.duplicates(duplicateCount)}
+            {pending.bundle.issues.length > 0 && t.transfer.invalidCount(pending.bundle.issues.length)}
+          </p>
+          <div className="field-grid">
+            <label className="field">
+              <span>{t.transfer.mode}</span>
+              <select value={options.mode} onChange={(e) => setOptions((prev) => ({ ...prev, mode: e.target.value as ImportMode }))}>
+                <option value="merge">{t.transfer.merge}</option>
+                <option value="replace">{t.transfer.replace}</option>
+              </select>
+            </label>
+            <label className="field">
+              <span>{t.transfer.duplicateHandling}</span>
+              <select
+                value={options.duplicates}
+                disabled={options.mode === 'replace'}
+                onChange={(e) => setOptions((prev) => ({ ...prev, duplicates: e.target.value as ImportOptions['duplicates'] }))}
+              >
+                <option value="skip">{t.transfer.skip}</option>
+                <option value="overwrite">{t.transfer.overwrite}</option>
+              </select>
+            </label>
+          </div>
+          <ul className="import-rows">
+            {rows.map(({ task, duplicateOf, matchedBy }) => (
+              <li key={`${task.row}-${task.id ?? task.input.title}`} className="small">
+                <span className={`badge-outline ${duplicateOf ? 'warn' : ''}`}>
+                  {duplicateOf ? (matchedBy === 'id' ? t.transfer.duplicateById : t.transfer.duplicateByTitle) : t.transfer.new}
+                </span>
+                {task.input.title}
+                {task.input.dueDate && <span className="muted"> ・ {t.common.due(formatDate(task.input.dueDate))}</span>}
+              </li>
+            ))}
+            {pending.bundle.issues.map((issue) => (
+              <li key={`issue-${issue.row}`} className="small import-issue">
+                <span className="badge-outline">{t.transfer.invalid}</span>
+                {t.transfer.row(issue.row, issue.reason)}
+              </li>
+            ))}
+          </ul>
+          <div className="task-actions">
+            <button className="primary" onClick={handleConfirm} disabled={importData.isPending || rows.length === 0}>
+              {t.transfer.import}
+            </button>
+            <button className="ghost" onClick={() => setPending(null)}>
+              {t.common.cancel}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
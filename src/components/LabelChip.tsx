@@ -0,0 +1,54 @@
+import type { Label } from '../db/database'
+
+function textColorFor(hex: string) {
+  const value = parseInt(hex.slice(1), 16)
+  const r = (value >> 16) & 0xff
+  const g = (value >> 8) & 0xff
+  const b = value & 0xff
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#0f172a' : '#ffffff'
+}
+
+type LabelChipProps = {
+  label: Label
+  selected?: boolean
+  onClick?: () => void
+}
+
+export function LabelChip({ label, selected, onClick }: LabelChipProps) {
+  const style = { background: label.color, color: textColorFor(label.color) }
+  if (!onClick) {
+    return (
+      <span className="label-chip" style={style}>
+        {label.name}
+      </span>
+    )
+  }
+  return (
+    <button
+      type="button"
+      className={`label-chip ${selected ? 'selected' : 'unselected'}`}
+      style={style}
+      aria-pressed={selected}
+      onClick={onClick}
+    >
+      {label.name}
+    </button>
+  )
+}
+
+type LabelChipsProps = {
+  labelIds: string[]
+  labels: Label[]
+}
+
+export function LabelChips({ labelIds, labels }: LabelChipsProps) {
+  const assigned = labels.filter((label) => labelIds.includes(label.id))
+  if (assigned.length === 0) return null
+  return (
+    <span className="label-chips">
+      {assigned.map((label) => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,51 @@
+import type { Label, LabelInput } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+
+type LabelManagerProps = {
+  labels: Label[]
+  onUpdate: (id: string, input: Partial<LabelInput>) => void
+  onDelete: (id: string) => void
+}
+
+export function LabelManager({ labels, onUpdate, onDelete }: LabelManagerProps) {
+  const { t } = useI18n()
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h3>{t.labels.title}</h3>
+        <p className="panel-subtitle">{t.labels.subtitle}</p>
+      </div>
+      {labels.length === 0 && <p className="empty">{t.labels.empty}</p>}
+      <ul className="label-manager">
+        {labels.map((label) => (
+          <li key={label.id} className="label-manager-item">
+            <input
+              type="color"
+              aria-label={t.labels.colorOf(label.name)}
+              value={label.color}
+              onChange={(e) => onUpdate(label.id, { color: e.target.value })}
+            />
+            <input
+              key={label.updatedAt}
+              defaultValue={label.name}
+              aria-label={t.labels.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim()
+                if (name && name !== label.name) onUpdate(label.id, { name })
+              }}
+            />
+            <button
+              className="ghost icon"
+              aria-label={t.common.deleteNamed(label.name)}
+              onClick={() => {
+                if (window.confirm(t.labels.confirmDelete(label.name))) onDelete(label.id)
+              }}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react'
+import type { Label, LabelInput } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+import { LabelChip } from './LabelChip'
+
+type LabelPickerProps = {
+  labels: Label[]
+  selectedIds: string[]
+  onChange: (labelIds: string[]) => void
+  onCreate: (input: LabelInput) => Promise<Label>
+}
+
+const defaultColor = '#6366f1'
+
+export function LabelPicker({ labels, selectedIds, onChange, onCreate }: LabelPickerProps) {
+  const [name, setName] = useState('')
+  const [color, setColor] = useState(defaultColor)
+  const { t } = useI18n()
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id])
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim()) return
+    const created = await onCreate({ name: name.trim(), color }).catch(() => undefined)
+    if (!created) return
+    onChange([...selectedIds, created.id])
+    setName('')
+    setColor(defaultColor)
+  }
+
+  return (
+    <div className="field">
+      <span>{t.labels.title}</span>
+      <div className="label-chips">
+        {labels.length === 0 && <span className="muted small">{t.labels.none}</span>}
+        {labels.map((label) => (
+          <LabelChip key={label.id} label={label} selected={selectedIds.includes(label.id)} onClick={() => toggle(label.id)} />
+        ))}
+      </div>
+      <div className="label-create">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              void handleCreate()
+            }
+          }}
+          placeholder={t.labels.placeholder}
+        />
+        <input type="color" aria-label={t.labels.color} value={color} onChange={(e) => setColor(e.target.value)} />
+        <button type="button" className="ghost" onClick={() => void handleCreate()}>
+          {t.common.create}
+        </button>
+      </div>
+    </div>
+  )
+}
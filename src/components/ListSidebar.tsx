@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import type { SmartListId, TaskList, TaskListInput } from '../db/database'
+import { DEFAULT_LIST_ID, SMART_LISTS } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+
+type ListSidebarProps = {
+  lists: TaskList[]
+  activeListId: string
+  counts: Record<string, number>
+  smartCounts: Record<SmartListId, number>
+  activeSmartList?: SmartListId
+  trashCount: number
+  trashActive: boolean
+  onSelect: (listId: string) => void
+  onSelectSmart: (id: SmartListId) => void
+  onOpenTrash: () => void
+  onCreate: (input: TaskListInput) => void
+  onUpdate: (id: string, input: Partial<TaskListInput>) => void
+  onDelete: (id: string) => void
+}
+
+const smartIcons: Record<SmartListId, string> = {
+  myDay: '☀️',
+  overdue: '⚠️',
+  upcoming: '📅',
+  planned: '🗓️',
+  important: '⭐',
+}
+
+const emptyDraft: TaskListInput = { name: '', color: '#0ea5e9', icon: '📋' }
+
+export function ListSidebar({
+  lists,
+  activeListId,
+  counts,
+  smartCounts,
+  activeSmartList,
+  trashCount,
+  trashActive,
+  onSelect,
+  onSelectSmart,
+  onOpenTrash,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: ListSidebarProps) {
+  const [draft, setDraft] = useState<TaskListInput>(emptyDraft)
+  const { t } = useI18n()
+  const activeList = trashActive || activeSmartList ? undefined : lists.find((list) => list.id === activeListId)
+  const isActive = (listId: string) => !trashActive && !activeSmartList && activeListId === listId
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0)
+
+  const handleCreate = () => {
+    if (!draft.name.trim()) return
+    onCreate({ ...draft, name: draft.name.trim() })
+    setDraft(emptyDraft)
+  }
+
+  return (
+    <nav className="panel sidebar" aria-label={t.lists.title}>
+      <div className="panel-header">
+        <h3>{t.lists.title}</h3>
+      </div>
+      <ul className="sidebar-lists" aria-label={t.smartLists.title}>
+        {SMART_LISTS.map((id) => (
+          <li key={id}>
+            <button className={`sidebar-item ${!trashActive && activeSmartList === id ? 'active' : ''}`} onClick={() => onSelectSmart(id)}>
+              <span aria-hidden="true">{smartIcons[id]}</span>
+              <span className="sidebar-name">{t.smartLists.names[id]}</span>
+              <span className={id === 'overdue' && smartCounts[id] > 0 ? 'overdue-count' : 'muted'}>{smartCounts[id]}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <ul className="sidebar-lists">
+        <li>
+          <button className={`sidebar-item ${isActive('all') ? 'active' : ''}`} onClick={() => onSelect('all')}>
+            <span aria-hidden="true">🗂️</span>
+            <span className="sidebar-name">{t.lists.all}</span>
+            <span className="muted">{total}</span>
+          </button>
+        </li>
+        {lists.map((list) => (
+          <li key={list.id}>
+            <button
+              className={`sidebar-item ${isActive(list.id) ? 'active' : ''}`}
+              style={{ borderLeftColor: list.color }}
+              onClick={() => onSelect(list.id)}
+            >
+              <span aria-hidden="true">{list.icon}</span>
+              <span className="sidebar-name">{list.name}</span>
+              <span className="muted">{counts[list.id] ?? 0}</span>
+            </button>
+          </li>
+        ))}
+        <li>
+          <button className={`sidebar-item trash-item ${trashActive ? 'active' : ''}`} onClick={onOpenTrash}>
+            <span aria-hidden="true">🗑️</span>
+            <span className="sidebar-name">{t.lists.trash}</span>
+            <span className="muted">{trashCount}</span>
+          </button>
+        </li>
+      </ul>
+
+      {activeList && (
+        <div className="sidebar-edit" key={activeList.id + activeList.updatedAt}>
+          <input
+            aria-label={t.lists.icon}
+            className="sidebar-icon-input"
+            defaultValue={activeList.icon}
+            onBlur={(e) => e.target.value && e.target.value !== activeList.icon && onUpdate(activeList.id, { icon: e.target.value })}
+          />
+          <input
+            aria-label={t.lists.name}
+            defaultValue={activeList.name}
+            onBlur={(e) => {
+              const name = e.target.value.trim()
+              if (name && name !== activeList.name) onUpdate(activeList.id, { name })
+            }}
+          />
+          <input
+            type="color"
+            aria-label={t.lists.color}
+            value={activeList.color}
+            onChange={(e) => onUpdate(activeList.id, { color: e.target.value })}
+          />
+          {activeList.id !== DEFAULT_LIST_ID && (
+            <button
+              className="ghost icon"
+              aria-label={t.common.deleteNamed(activeList.name)}
+              onClick={() => {
+                if (window.confirm(t.lists.confirmDelete(activeList.name, lists[0]?.name ?? ''))) {
+                  onDelete(activeList.id)
+                }
+              }}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="sidebar-create">
+        <input
+          aria-label={t.lists.icon}
+          className="sidebar-icon-input"
+          value={draft.icon}
+          onChange={(e) => setDraft((prev) => ({ ...prev, icon: e.target.value }))}
+        />
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate()
+          }}
+          placeholder={t.lists.placeholder}
+        />
+        <input
+          type="color"
+          aria-label={t.lists.color}
+          value={draft.color}
+          onChange={(e) => setDraft((prev) => ({ ...prev, color: e.target.value }))}
+        />
+        <button className="ghost icon" aria-label={t.lists.add} onClick={handleCreate}>
+          +
+        </button>
+      </div>
+    </nav>
+  )
+}
@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { db, type QuarantineEntry } from '../db/database'
+import { downloadFile } from '../download'
+import { formatDateTime } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+function downloadEntries(entries: QuarantineEntry[]) {
+  downloadFile(
+    JSON.stringify(entries, null, 2),
+    `tanstack-todo-quarantine-${new Date().toISOString().slice(0, 10)}.json`,
+    'application/json',
+  )
+}
+
+export function QuarantineNotice() {
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+  const quarantineQuery = useQuery({ queryKey: ['quarantine'], queryFn: () => db.getQuarantine() })
+  const entries = quarantineQuery.data ?? []
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['quarantine'] })
+    queryClient.invalidateQueries({ queryKey: ['tasks'] })
+  }
+
+  const recover = useMutation({ mutationFn: () => db.recoverQuarantined(), onSuccess: refresh })
+  const discard = useMutation({ mutationFn: () => db.discardQuarantined(), onSuccess: refresh })
+
+  if (entries.length === 0) return null
+
+  const handleDiscard = () => {
+    if (window.confirm(t.quarantine.confirmDiscard)) discard.mutate()
+  }
+
+  return (
+    <section className="panel notice" role="alert">
+      <div className="panel-header">
+        <div>
+          <h3>{t.quarantine.title(entries.length)}</h3>
+          <p className="panel-subtitle">{t.quarantine.subtitle}</p>
+        </div>
+        <div className="task-actions">
+          <button className="primary" onClick={() => recover.mutate()} disabled={recover.isPending}>
+            {t.quarantine.recover}
+          </button>
+          <button className="ghost" onClick={() => downloadEntries(entries)}>
+            {t.quarantine.download}
+          </button>
+          <button className="ghost" onClick={handleDiscard} disabled={discard.isPending}>
+            {t.quarantine.discard}
+          </button>
+        </div>
+      </div>
+      {recover.data && recover.data.failed.length > 0 && <p className="muted small">{t.quarantine.failed(recover.data.failed.length)}</p>}
+      <details>
+        <summary className="muted small">{t.common.details}</summary>
+        <ul className="notice-list">
+          {entries.map((entry) => (
+            <li key={entry.id} className="small">
+              <span className="muted">{formatDateTime(entry.quarantinedAt)}</span> {entry.reason}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </section>
+  )
+}
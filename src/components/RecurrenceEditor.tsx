@@ -0,0 +1,127 @@
+import { describeRecurrence, nextOccurrence, type Recurrence } from '../db/database'
+import { formatDate } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+type RecurrenceEditorProps = {
+  value: Recurrence | null
+  dueDate?: string | null
+  onChange: (recurrence: Recurrence | null) => void
+  onSkip?: () => void
+  onEnd?: () => void
+}
+
+function defaultRecurrence(type: Recurrence['type'], dueDate?: string | null): Recurrence {
+  const base = dueDate ? new Date(`${dueDate}T00:00:00`) : new Date()
+  switch (type) {
+    case 'daily':
+      return { type, interval: 1, until: null }
+    case 'weekly':
+      return { type, interval: 1, weekdays: [base.getDay()], until: null }
+    case 'monthly':
+      return { type, interval: 1, dayOfMonth: base.getDate(), until: null }
+  }
+}
+
+export function RecurrenceEditor({ value, dueDate, onChange, onSkip, onEnd }: RecurrenceEditorProps) {
+  const preview = value && dueDate ? nextOccurrence(value, dueDate) : null
+  const { t } = useI18n()
+
+  return (
+    <fieldset className="field recurrence">
+      <legend>{t.recurrence.title}</legend>
+      <div className="field-grid">
+        <select
+          aria-label={t.recurrence.type}
+          value={value?.type ?? 'none'}
+          onChange={(e) => {
+            const type = e.target.value
+            onChange(type === 'none' ? null : defaultRecurrence(type as Recurrence['type'], dueDate))
+          }}
+        >
+          <option value="none">{t.common.none}</option>
+          <option value="daily">{t.recurrence.daily}</option>
+          <option value="weekly">{t.recurrence.weekly}</option>
+          <option value="monthly">{t.recurrence.monthly}</option>
+        </select>
+        {value && (
+          <label className="inline-field">
+            <input
+              type="number"
+              min={1}
+              aria-label={t.recurrence.interval}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <span>{t.recurrence.every[value.type]}</span>
+          </label>
+        )}
+      </div>
+
+      {value?.type === 'weekly' && (
+        <div className="weekday-picker" role="group" aria-label={t.recurrence.weekdayGroup}>
+          {t.recurrence.weekdays.map((label, day) => {
+            const selected = value.weekdays.includes(day)
+            return (
+              <button
+                key={label}
+                type="button"
+                className={`weekday ${selected ? 'selected' : ''}`}
+                aria-pressed={selected}
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    weekdays: selected ? value.weekdays.filter((d) => d !== day) : [...value.weekdays, day].sort(),
+                  })
+                }
+              >
+                {label}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {value?.type === 'monthly' && (
+        <label className="inline-field">
+          <span>{t.recurrence.monthDay}</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            aria-label={t.recurrence.dayOfMonth}
+            value={value.dayOfMonth}
+            onChange={(e) => onChange({ ...value, dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+          />
+          <span>{t.recurrence.daySuffix}</span>
+        </label>
+      )}
+
+      {value && (
+        <>
+          <label className="inline-field">
+            <span>{t.recurrence.until}</span>
+            <input type="date" value={value.until ?? ''} onChange={(e) => onChange({ ...value, until: e.target.value || null })} />
+          </label>
+          <p className="muted small">
+            {describeRecurrence(value)}
+            {preview && ` ・ ${t.recurrence.next(formatDate(preview))}`}
+          </p>
+          {(onSkip || onEnd) && (
+            <div className="task-actions">
+              {onSkip && (
+                <button type="button" className="ghost" onClick={onSkip}>
+                  {t.recurrence.skip}
+                </button>
+              )}
+              {onEnd && (
+                <button type="button" className="ghost" onClick={onEnd}>
+                  {t.recurrence.end}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import {
+  collectReminders,
+  db,
+  DEFAULT_WORKFLOW,
+  ReminderScheduler,
+  type Clock,
+  type DeliveryLog,
+  type ScheduledReminder,
+} from '../db/database'
+import { formatDate, messages } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+type ReminderCenterProps = {
+  clock?: Clock
+  onOpenTask: (id: string) => void
+}
+
+type Permission = NotificationPermission | 'unsupported'
+
+const deliveryLog: DeliveryLog = {
+  load: () => db.getDeliveredReminders(),
+  save: (keys) => db.setDeliveredReminders(keys),
+}
+
+const readPermission = (): Permission => (typeof Notification === 'undefined' ? 'unsupported' : Notification.permission)
+
+function showNotification(reminder: ScheduledReminder, onClick: () => void) {
+  if (readPermission() !== 'granted') return false
+  try {
+    const notification = new Notification(`⏰ ${reminder.task.title}`, {
+      body: reminder.task.dueDate ? messages().common.due(formatDate(reminder.task.dueDate)) : undefined,
+      tag: reminder.key,
+    })
+    notification.onclick = () => {
+      window.focus()
+      onClick()
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function ReminderCenter({ clock, onOpenTask }: ReminderCenterProps) {
+  const tasksQuery = useQuery({ queryKey: ['tasks'], queryFn: () => db.getTasks() })
+  const workflowQuery = useQuery({ queryKey: ['workflow'], queryFn: () => db.getWorkflow() })
+  const { t } = useI18n()
+  const [permission, setPermission] = useState<Permission>(readPermission)
+  const [banners, setBanners] = useState<ScheduledReminder[]>([])
+  const [scheduler] = useState(() => new ReminderScheduler(clock, deliveryLog))
+  const workflow = workflowQuery.data ?? DEFAULT_WORKFLOW
+  const reminders = useMemo(() => collectReminders(tasksQuery.data ?? [], workflow), [tasksQuery.data, workflow])
+
+  useEffect(
+    () =>
+      scheduler.subscribe((reminder) => {
+        if (showNotification(reminder, () => onOpenTask(reminder.task.id))) return
+        setBanners((prev) => [...prev.filter((item) => item.task.id !== reminder.task.id), reminder])
+      }),
+    [scheduler, onOpenTask],
+  )
+
+  useEffect(() => () => scheduler.dispose(), [scheduler])
+
+  useEffect(() => {
+    if (tasksQuery.data && workflowQuery.data) void scheduler.sync(tasksQuery.data, workflowQuery.data)
+  }, [scheduler, tasksQuery.data, workflowQuery.data])
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission())
+  }
+
+  const dismiss = (key: string) => setBanners((prev) => prev.filter((item) => item.key !== key))
+
+  const current = new Set(reminders.map((reminder) => reminder.key))
+  const visible = banners.filter((reminder) => current.has(reminder.key))
+
+  return (
+    <>
+      {permission === 'default' && reminders.length > 0 && (
+        <div className="reminder-banner" role="status">
+          <span>{t.reminder.permissionPrompt}</span>
+          <button className="ghost" onClick={requestPermission}>
+            {t.reminder.allow}
+          </button>
+        </div>
+      )}
+      {visible.map((reminder) => (
+        <div key={reminder.key} className="reminder-banner due" role="alert">
+          <span>
+            {t.reminder.banner(reminder.task.title)}
+            {reminder.task.dueDate && <span className="muted small"> ・ {t.common.due(formatDate(reminder.task.dueDate))}</span>}
+          </span>
+          <div className="task-actions">
+            <button
+              className="ghost"
+              onClick={() => {
+                onOpenTask(reminder.task.id)
+                dismiss(reminder.key)
+              }}
+            >
+              {t.common.open}
+            </button>
+            <button className="link" aria-label={t.common.close} onClick={() => dismiss(reminder.key)}>
+              ×
+            </button>
+          </div>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,80 @@
+import { describeReminder, reminderAt, type Reminder, type ReminderUnit } from '../db/database'
+import { formatDateTime } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+type ReminderEditorProps = {
+  value: Reminder | null
+  dueDate?: string | null
+  onChange: (reminder: Reminder | null) => void
+}
+
+const defaultReminder: Reminder = { amount: 0, unit: 'minutes', time: '09:00' }
+
+export function ReminderEditor({ value, dueDate, onChange }: ReminderEditorProps) {
+  const at = value && dueDate ? reminderAt(dueDate, value) : null
+  const { t } = useI18n()
+  const mode = !value ? 'none' : value.amount === 0 ? 'due' : 'before'
+
+  return (
+    <fieldset className="field recurrence">
+      <legend>{t.reminder.title}</legend>
+      <div className="field-grid">
+        <select
+          aria-label={t.reminder.type}
+          value={mode}
+          onChange={(e) => {
+            const next = e.target.value
+            if (next === 'none') onChange(null)
+            else onChange({ ...(value ?? defaultReminder), amount: next === 'due' ? 0 : value?.amount || 30 })
+          }}
+        >
+          <option value="none">{t.common.none}</option>
+          <option value="due">{t.reminder.atDue}</option>
+          <option value="before">{t.reminder.beforeDue}</option>
+        </select>
+        {value && (
+          <label className="inline-field">
+            <span>{t.reminder.dueTime}</span>
+            <input
+              type="time"
+              value={value.time}
+              onChange={(e) => onChange({ ...value, time: e.target.value || defaultReminder.time })}
+              disabled={Boolean(dueDate?.includes('T'))}
+            />
+          </label>
+        )}
+      </div>
+
+      {value && value.amount > 0 && (
+        <label className="inline-field">
+          <input
+            type="number"
+            min={1}
+            aria-label={t.reminder.amount}
+            value={value.amount}
+            onChange={(e) => onChange({ ...value, amount: Math.max(1, Math.trunc(Number(e.target.value)) || 1) })}
+          />
+          <select
+            aria-label={t.reminder.unit}
+            value={value.unit}
+            onChange={(e) => onChange({ ...value, unit: e.target.value as ReminderUnit })}
+          >
+            {(Object.keys(t.reminder.units) as ReminderUnit[]).map((unit) => (
+              <option key={unit} value={unit}>
+                {t.reminder.units[unit]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {value && (
+        <p className="muted small">
+          {!dueDate
+            ? t.reminder.needsDueDate
+            : t.reminder.notifyAt(describeReminder(value), at === null ? '-' : formatDateTime(at))}
+        </p>
+      )}
+    </fieldset>
+  )
+}
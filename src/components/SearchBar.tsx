@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { parseQuery, QuerySyntaxError, type TaskQuery } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+
+type SearchBarProps = {
+  value?: TaskQuery
+  onChange: (query: TaskQuery | undefined) => void
+}
+
+export function SearchBar({ value, onChange }: SearchBarProps) {
+  const [text, setText] = useState(value?.source ?? '')
+  const [error, setError] = useState<QuerySyntaxError | null>(null)
+  const [syncedSource, setSyncedSource] = useState(value?.source ?? '')
+  const { t } = useI18n()
+  const examples = [
+    'is:open',
+    'priority:high',
+    'due:<2026-11-01',
+    'updated:<7d',
+    `label:${t.search.sampleLabel}`,
+    '-is:done',
+    `"${t.search.sampleText}"`,
+  ]
+
+  const source = value?.source ?? ''
+  if (source !== syncedSource) {
+    setSyncedSource(source)
+    if (source !== text) {
+      setText(source)
+      setError(null)
+    }
+  }
+
+  const handleChange = (next: string) => {
+    setText(next)
+    try {
+      const query = parseQuery(next)
+      setError(null)
+      onChange(query.clauses.length ? query : undefined)
+    } catch (caught) {
+      if (!(caught instanceof QuerySyntaxError)) throw caught
+      setError(caught)
+    }
+  }
+
+  return (
+    <div className="field search-bar">
+      <span>{t.search.label}</span>
+      <input
+        id="task-search"
+        type="search"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={`is:open priority:high due:<2026-11-01 "${t.search.sampleText}"`}
+        aria-invalid={Boolean(error)}
+        aria-describedby="search-help"
+        spellCheck={false}
+      />
+      {error ? (
+        <p id="search-help" className="search-error" role="alert">
+          {error.message}
+          <code>
+            {text.slice(0, error.position)}
+            <mark>{text.slice(error.position, error.position + error.length) || ' '}</mark>
+            {text.slice(error.position + error.length)}
+          </code>
+        </p>
+      ) : (
+        <p id="search-help" className="muted small">
+          {t.search.examples} {examples.map((example) => <code key={example}>{example}</code>)}
+        </p>
+      )}
+    </div>
+  )
+}
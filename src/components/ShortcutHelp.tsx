@@ -0,0 +1,44 @@
+import { useI18n } from '../i18n/useI18n'
+import { shortcutHelp } from '../keyboard'
+
+type ShortcutHelpProps = {
+  onClose: () => void
+}
+
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const { t } = useI18n()
+  return (
+    <div className="overlay" onClick={onClose}>
+      <div
+        className="dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose()
+        }}
+      >
+        <div className="panel-header">
+          <h3 id="shortcut-help-title">{t.shortcuts.title}</h3>
+          <button className="ghost icon" aria-label={t.common.close} autoFocus onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <p className="muted small">{t.shortcuts.note}</p>
+        <dl className="shortcut-list">
+          {shortcutHelp.map((shortcut) => (
+            <div key={shortcut.description} className="shortcut-row">
+              <dt>
+                {shortcut.keys.map((key) => (
+                  <kbd key={key}>{key}</kbd>
+                ))}
+              </dt>
+              <dd>{t.shortcuts[shortcut.description]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useState, useSyncExternalStore, type FormEvent } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { db } from '../db/database'
+import { formatDateTime } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+function useSyncStatus() {
+  return useSyncExternalStore(db.subscribeSync, db.getSyncStatus)
+}
+
+export function SyncBadge() {
+  const { t } = useI18n()
+  const status = useSyncStatus()
+  if (status.state === 'disabled') return null
+  return (
+    <span className={`badge-outline sync-badge ${status.state}`} role="status">
+      {t.sync.states[status.state]}
+      {status.pending > 0 && ` ・ ${t.sync.pending(status.pending)}`}
+    </span>
+  )
+}
+
+export function SyncSettings() {
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+  const status = useSyncStatus()
+  const endpointQuery = useQuery({ queryKey: ['syncEndpoint'], queryFn: () => db.getSyncEndpoint() })
+  const endpoint = endpointQuery.data ?? null
+  const [error, setError] = useState<string | null>(null)
+
+  const configure = useMutation({
+    mutationFn: (next: string | null) => db.configureSync(next),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['syncEndpoint'] }),
+    onError: (caught: Error) => setError(caught.message),
+  })
+  const syncNow = useMutation({ mutationFn: () => db.syncNow() })
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const value = String(new FormData(e.currentTarget).get('endpoint') ?? '').trim()
+    if (!/^https?:\/\//.test(value) || !URL.canParse(value)) {
+      setError(t.sync.invalidEndpoint)
+      return
+    }
+    setError(null)
+    configure.mutate(value)
+  }
+
+  return (
+    <div className="panel sync">
+      <div className="panel-header">
+        <div>
+          <h3>{t.sync.title}</h3>
+          <p className="panel-subtitle">{t.sync.subtitle}</p>
+        </div>
+        <span className={`badge-outline sync-badge ${status.state}`}>{t.sync.states[status.state]}</span>
+      </div>
+      {endpoint ? (
+        <>
+          <p className="small">
+            <code>{endpoint}</code>
+          </p>
+          <p className="muted small" role="status">
+            {status.pending > 0 && `${t.sync.pending(status.pending)} ・ `}
+            {status.lastSyncedAt && t.sync.lastSynced(formatDateTime(status.lastSyncedAt))}
+            {status.retryAt && ` ・ ${t.sync.retryAt(formatDateTime(status.retryAt))}`}
+          </p>
+          {status.error && (
+            <p className="search-error" role="alert">
+              {status.error}
+            </p>
+          )}
+          <div className="task-actions">
+            <button className="primary" onClick={() => syncNow.mutate()} disabled={status.state === 'syncing'}>
+              {t.sync.syncNow}
+            </button>
+            <button className="ghost" onClick={() => configure.mutate(null)} disabled={configure.isPending}>
+              {t.sync.disconnect}
+            </button>
+          </div>
+        </>
+      ) : (
+        <form className="task-actions" onSubmit={handleSubmit}>
+          <label className="field">
+            <span>{t.sync.endpoint}</span>
+            <input name="endpoint" type="url" placeholder="http://localhost:8787" />
+          </label>
+          <button className="primary" type="submit" disabled={configure.isPending || endpointQuery.isPending}>
+            {t.sync.connect}
+          </button>
+        </form>
+      )}
+      {error && (
+        <p className="search-error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
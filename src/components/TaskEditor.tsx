@@ -1,46 +1,111 @@
-import { FormEvent, useEffect, useMemo, useState } from 'react'
-import type { Task, TaskPriority, TaskStatus } from '../db/database'
+import { useState, type FormEvent } from 'react'
+import {
+  columnLabel,
+  DEFAULT_LIST_ID,
+  initialStatus,
+  type ChecklistItem,
+  type Label,
+  type LabelInput,
+  type Recurrence,
+  type Reminder,
+  type Task,
+  type TaskList,
+  type TaskPriority,
+  type TaskStatus,
+  type Workflow,
+} from '../db/database'
+import { formatDateTime } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+import { ActivityTimeline } from './ActivityTimeline'
+import { ChecklistEditor } from './ChecklistEditor'
+import { LabelPicker } from './LabelPicker'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import { ReminderEditor } from './ReminderEditor'
 
 export type TaskFormValue = {
   title: string
   description?: string
   status: TaskStatus
   priority: TaskPriority
+  listId: string
   dueDate?: string | null
+  checklist: ChecklistItem[]
+  completeWhenChecklistDone: boolean
+  labelIds: string[]
+  recurrence: Recurrence | null
+  reminder: Reminder | null
 }
 
 type TaskEditorProps = {
   task?: Task
+  lists: TaskList[]
+  defaultListId: string
+  labels: Label[]
+  workflow: Workflow
+  inMyDay: boolean
+  onCreateLabel: (input: LabelInput) => Promise<Label>
   onCreate: (input: TaskFormValue) => void
   onUpdate: (id: string, updates: TaskFormValue) => void
   onDelete: (id: string) => void
+  onSkipOccurrence: (id: string) => void
+  onEndSeries: (id: string) => void
+  onToggleMyDay: (id: string, myDay: boolean) => void
 }
 
-const emptyForm: TaskFormValue = {
+const emptyForm: Omit<TaskFormValue, 'status'> = {
   title: '',
   description: '',
-  status: 'todo',
   priority: 'medium',
+  listId: DEFAULT_LIST_ID,
   dueDate: '',
+  checklist: [],
+  completeWhenChecklistDone: false,
+  labelIds: [],
+  recurrence: null,
+  reminder: null,
 }
 
-export function TaskEditor({ task, onCreate, onUpdate, onDelete }: TaskEditorProps) {
-  const [form, setForm] = useState<TaskFormValue>(emptyForm)
-  const isNew = useMemo(() => !task, [task])
-
-  useEffect(() => {
-    if (task) {
-      setForm({
+const toForm = (task: Task | undefined, defaultListId: string, status: TaskStatus): TaskFormValue =>
+  task
+    ? {
         title: task.title,
         description: task.description ?? '',
         status: task.status,
         priority: task.priority,
+        listId: task.listId,
         dueDate: task.dueDate ?? '',
-      })
-    } else {
-      setForm(emptyForm)
-    }
-  }, [task])
+        checklist: task.checklist,
+        completeWhenChecklistDone: task.completeWhenChecklistDone,
+        labelIds: task.labelIds,
+        recurrence: task.recurrence,
+        reminder: task.reminder,
+      }
+    : { ...emptyForm, status, listId: defaultListId }
+
+export function TaskEditor({
+  task,
+  lists,
+  defaultListId,
+  labels,
+  workflow,
+  inMyDay,
+  onCreateLabel,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onSkipOccurrence,
+  onEndSeries,
+  onToggleMyDay,
+}: TaskEditorProps) {
+  const [form, setForm] = useState<TaskFormValue>(() => toForm(task, defaultListId, initialStatus(workflow)))
+  const [synced, setSynced] = useState({ task, defaultListId })
+  const isNew = !task
+  const { t } = useI18n()
+
+  if (task !== synced.task || defaultListId !== synced.defaultListId) {
+    setSynced({ task, defaultListId })
+    setForm(toForm(task, defaultListId, initialStatus(workflow)))
+  }
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault()
@@ -56,80 +121,131 @@ export function TaskEditor({ task, onCreate, onUpdate, onDelete }: TaskEditorPro
     <div className="panel editor">
       <div className="panel-header">
         <div>
-          <h3>{isNew ? '新規作成' : 'タスク詳細 / 編集'}</h3>
-          <p className="panel-subtitle">Microsoft To Do 風の実用的な編集体験</p>
+          <h3>{isNew ? t.editor.newTitle : t.editor.editTitle}</h3>
+          <p className="panel-subtitle">{t.editor.subtitle}</p>
         </div>
         {!isNew && task && (
-          <button className="ghost" onClick={() => onDelete(task.id)}>
-            削除
-          </button>
+          <div className="task-actions">
+            <button className={`ghost ${inMyDay ? 'active' : ''}`} aria-pressed={inMyDay} onClick={() => onToggleMyDay(task.id, !inMyDay)}>
+              ☀️ {inMyDay ? t.smartLists.removeFromMyDay : t.smartLists.addToMyDay}
+            </button>
+            <button
+              className="ghost"
+              onClick={() => {
+                if (window.confirm(t.common.confirmTrash(task.title))) onDelete(task.id)
+              }}
+            >
+              {t.common.delete}
+            </button>
+          </div>
         )}
       </div>
       <form className="task-form" onSubmit={handleSubmit}>
         <label className="field">
-          <span>タイトル *</span>
+          <span>{t.editor.title}</span>
           <input
+            id="task-title"
             value={form.title}
             onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
-            placeholder="例: 仕様確認のミーティング"
+            placeholder={t.editor.titlePlaceholder}
             required
           />
         </label>
         <label className="field">
-          <span>詳細</span>
+          <span>{t.editor.description}</span>
           <textarea
             value={form.description}
             onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
-            placeholder="内容やメモを記入"
+            placeholder={t.editor.descriptionPlaceholder}
             rows={4}
           />
         </label>
         <div className="field-grid">
           <label className="field">
-            <span>ステータス</span>
+            <span>{t.editor.status}</span>
             <select
               value={form.status}
               onChange={(e) => setForm((prev) => ({ ...prev, status: e.target.value as TaskStatus }))}
             >
-              <option value="todo">未着手</option>
-              <option value="in-progress">進行中</option>
-              <option value="done">完了</option>
+              {workflow.columns.map((column) => (
+                <option key={column.id} value={column.id}>
+                  {columnLabel(column)}
+                </option>
+              ))}
             </select>
           </label>
           <label className="field">
-            <span>優先度</span>
+            <span>{t.editor.priority}</span>
             <select
               value={form.priority}
               onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value as TaskPriority }))}
             >
-              <option value="low">低</option>
-              <option value="medium">中</option>
-              <option value="high">高</option>
+              <option value="low">{t.priority.low}</option>
+              <option value="medium">{t.priority.medium}</option>
+              <option value="high">{t.priority.high}</option>
             </select>
           </label>
         </div>
         <label className="field">
-          <span>期限</span>
+          <span>{t.editor.list}</span>
+          <select value={form.listId} onChange={(e) => setForm((prev) => ({ ...prev, listId: e.target.value }))}>
+            {lists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.icon} {list.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>{t.editor.dueDate}</span>
           <input
             type="date"
             value={form.dueDate ?? ''}
             onChange={(e) => setForm((prev) => ({ ...prev, dueDate: e.target.value }))}
           />
         </label>
+        <ReminderEditor
+          value={form.reminder}
+          dueDate={form.dueDate}
+          onChange={(reminder) => setForm((prev) => ({ ...prev, reminder }))}
+        />
+        <RecurrenceEditor
+          value={form.recurrence}
+          dueDate={form.dueDate}
+          onChange={(recurrence) => setForm((prev) => ({ ...prev, recurrence }))}
+          onSkip={task?.recurrence ? () => onSkipOccurrence(task.id) : undefined}
+          onEnd={task?.recurrence ? () => onEndSeries(task.id) : undefined}
+        />
+        <LabelPicker
+          labels={labels}
+          selectedIds={form.labelIds}
+          onChange={(labelIds) => setForm((prev) => ({ ...prev, labelIds }))}
+          onCreate={onCreateLabel}
+        />
+        <ChecklistEditor items={form.checklist} onChange={(checklist) => setForm((prev) => ({ ...prev, checklist }))} />
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={form.completeWhenChecklistDone}
+            onChange={(e) => setForm((prev) => ({ ...prev, completeWhenChecklistDone: e.target.checked }))}
+          />
+          <span>{t.editor.completeWhenChecklistDone}</span>
+        </label>
         <div className="form-actions">
           <div className="timestamps">
             {task && (
               <>
-                <span className="muted">作成: {new Date(task.createdAt).toLocaleString()}</span>
-                <span className="muted">更新: {new Date(task.updatedAt).toLocaleString()}</span>
+                <span className="muted">{t.common.created(formatDateTime(task.createdAt))}</span>
+                <span className="muted">{t.common.updated(formatDateTime(task.updatedAt))}</span>
               </>
             )}
           </div>
           <button type="submit" className="primary">
-            {isNew ? '追加する' : '更新する'}
+            {isNew ? t.editor.submitNew : t.editor.submitUpdate}
           </button>
         </div>
       </form>
+      {task && <ActivityTimeline taskId={task.id} />}
     </div>
   )
 }
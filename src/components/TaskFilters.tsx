@@ -1,79 +1,97 @@
-import type { TaskFilter } from '../db/database'
-import { taskPrioritySchema, taskStatusSchema } from '../db/schema'
+import { columnLabel, type Label, type TaskFilter, type WorkflowColumn } from '../db/database'
+import { taskPrioritySchema } from '../db/schema'
+import { useI18n } from '../i18n/useI18n'
+import { LabelChip } from './LabelChip'
+import { SearchBar } from './SearchBar'
 
 type TaskFiltersProps = {
   value: TaskFilter
+  labels: Label[]
+  columns: WorkflowColumn[]
   onChange: (filters: TaskFilter) => void
 }
 
-const statusOptions = ['all', ...taskStatusSchema.options] as const
 const priorityOptions = ['all', ...taskPrioritySchema.options] as const
 
-export function TaskFilters({ value, onChange }: TaskFiltersProps) {
+export function TaskFilters({ value, labels, columns, onChange }: TaskFiltersProps) {
+  const { t } = useI18n()
+  const selectedLabels = value.labelIds ?? []
+
+  const toggleLabel = (id: string) => {
+    const labelIds = selectedLabels.includes(id) ? selectedLabels.filter((selected) => selected !== id) : [...selectedLabels, id]
+    onChange({ ...value, labelIds: labelIds.length ? labelIds : undefined })
+  }
+
   return (
     <div className="panel">
       <div className="panel-header">
-        <h3>フィルタ</h3>
-        <p className="panel-subtitle">状態・優先度・期限で絞り込み</p>
+        <h3>{t.filters.title}</h3>
+        <p className="panel-subtitle">{t.filters.subtitle}</p>
       </div>
+      <SearchBar value={value.query} onChange={(query) => onChange({ ...value, query })} />
       <div className="field-grid">
         <label className="field">
-          <span>ステータス</span>
+          <span>{t.editor.status}</span>
           <select
             value={value.status ?? 'all'}
             onChange={(e) => onChange({ ...value, status: e.target.value as TaskFilter['status'] })}
           >
-            {statusOptions.map((status) => (
-              <option key={status} value={status}>
-                {status === 'all' ? 'すべて' : statusLabels[status]}
+            <option value="all">{t.common.all}</option>
+            {columns.map((column) => (
+              <option key={column.id} value={column.id}>
+                {columnLabel(column)}
               </option>
             ))}
           </select>
         </label>
         <label className="field">
-          <span>優先度</span>
+          <span>{t.editor.priority}</span>
           <select
             value={value.priority ?? 'all'}
             onChange={(e) => onChange({ ...value, priority: e.target.value as TaskFilter['priority'] })}
           >
             {priorityOptions.map((priority) => (
               <option key={priority} value={priority}>
-                {priority === 'all' ? 'すべて' : priorityLabels[priority]}
+                {priority === 'all' ? t.common.all : t.priority[priority]}
               </option>
             ))}
           </select>
         </label>
       </div>
       <label className="field">
-        <span>期限（まで）</span>
+        <span>{t.filters.dueBefore}</span>
         <input
           type="date"
           value={value.dueBefore ?? ''}
           onChange={(e) => onChange({ ...value, dueBefore: e.target.value || undefined })}
         />
       </label>
+      {labels.length > 0 && (
+        <div className="field">
+          <span>{t.labels.title}</span>
+          <div className="label-chips">
+            {labels.map((label) => (
+              <LabelChip key={label.id} label={label} selected={selectedLabels.includes(label.id)} onClick={() => toggleLabel(label.id)} />
+            ))}
+          </div>
+          <select
+            aria-label={t.filters.labelMode}
+            value={value.labelMode ?? 'any'}
+            onChange={(e) => onChange({ ...value, labelMode: e.target.value as TaskFilter['labelMode'] })}
+          >
+            <option value="any">{t.filters.labelAny}</option>
+            <option value="all">{t.filters.labelAll}</option>
+          </select>
+        </div>
+      )}
       <label className="checkbox">
         <input
           type="checkbox"
           checked={Boolean(value.includeDone)}
           onChange={(e) => onChange({ ...value, includeDone: e.target.checked })}
         />
-        <span>完了済みも表示する</span>
+        <span>{t.filters.includeDone}</span>
       </label>
     </div>
   )
 }
-
-const statusLabels: Record<string, string> = {
-  all: 'すべて',
-  todo: '未着手',
-  'in-progress': '進行中',
-  done: '完了',
-}
-
-const priorityLabels: Record<string, string> = {
-  all: 'すべて',
-  low: '低',
-  medium: '中',
-  high: '高',
-}
@@ -1,10 +1,31 @@
-import type { Task } from '../db/database'
+import { useState, type ChangeEvent } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  arrangeTasks,
+  columnName,
+  db,
+  DEFAULT_LIST_VIEW,
+  describeRecurrence,
+  describeReminder,
+  isOverdue,
+  type DueBucket,
+  type GroupBy,
+  type Label,
+  type ListView,
+  type SortKey,
+  type Task,
+  type TaskGroup,
+  type Workflow,
+} from '../db/database'
+import { formatDate } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+import { toggleSelection } from '../selection'
+import { useToday } from '../useToday'
+import { ChecklistProgress } from './ChecklistEditor'
+import { LabelChips } from './LabelChip'
 
-const statusLabel: Record<Task['status'], string> = {
-  todo: '未着手',
-  'in-progress': '進行中',
-  done: '完了',
-}
+const sortKeys: SortKey[] = ['manual', 'dueDate', 'priority', 'createdAt', 'updatedAt', 'title']
+const groupings: GroupBy[] = ['none', 'status', 'priority', 'due']
 
 const priorityTone: Record<Task['priority'], string> = {
   low: 'badge soft',
@@ -14,64 +35,187 @@ const priorityTone: Record<Task['priority'], string> = {
 
 type TaskListProps = {
   tasks: Task[]
+  labels: Label[]
+  workflow: Workflow
   selectedId?: string
+  checkedIds: Set<string>
   onSelect: (id: string) => void
+  onCheckedChange: (ids: Set<string>) => void
   onCreate: () => void
   onDelete: (id: string) => void
 }
 
-export function TaskList({ tasks, selectedId, onSelect, onCreate, onDelete }: TaskListProps) {
-  const sortedTasks = [...tasks].sort((a, b) => {
-    const statusWeight: Record<Task['status'], number> = { todo: 0, 'in-progress': 1, done: 2 }
-    const statusDiff = statusWeight[a.status] - statusWeight[b.status]
-    if (statusDiff !== 0) return statusDiff
-    if (a.order !== b.order) return a.order - b.order
-    return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+export function TaskList({
+  tasks,
+  labels,
+  workflow,
+  selectedId,
+  checkedIds,
+  onSelect,
+  onCheckedChange,
+  onCreate,
+  onDelete,
+}: TaskListProps) {
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+  const today = useToday()
+  const [anchor, setAnchor] = useState<string | null>(null)
+  const viewQuery = useQuery({ queryKey: ['listView'], queryFn: () => db.getListView() })
+  const view = viewQuery.data ?? DEFAULT_LIST_VIEW
+  const saveView = useMutation({
+    mutationFn: (next: ListView) => db.setListView(next),
+    onMutate: (next) => queryClient.setQueryData(['listView'], next),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['listView'] }),
   })
 
+  const changeView = (patch: Partial<ListView>) => saveView.mutate({ ...view, ...patch })
+  const groups = arrangeTasks(tasks, view, workflow, today)
+  const order = groups.flatMap((group) => (group.collapsed ? [] : group.tasks.map((task) => task.id)))
+  const checkedCount = order.filter((id) => checkedIds.has(id)).length
+
+  const handleCheck = (e: ChangeEvent<HTMLInputElement>, id: string) => {
+    const range = e.nativeEvent instanceof MouseEvent && e.nativeEvent.shiftKey
+    onCheckedChange(toggleSelection(checkedIds, order, id, anchor, range))
+    setAnchor(id)
+  }
+
+  const toggleGroup = (group: TaskGroup) => {
+    const key = `${view.groupBy}:${group.key}`
+    changeView({ collapsed: group.collapsed ? view.collapsed.filter((item) => item !== key) : [...view.collapsed, key] })
+  }
+
+  const groupLabel = (key: string) => {
+    if (view.groupBy === 'status') return columnName(workflow, key)
+    if (view.groupBy === 'priority') return t.priority[key as Task['priority']]
+    return t.listView.due[key as DueBucket]
+  }
+
+  const renderTask = (task: Task) => {
+    const overdue = isOverdue(task, today, workflow)
+    return (
+      <article
+        key={task.id}
+        id={`task-${task.id}`}
+        role="listitem"
+        className={`task-item ${selectedId === task.id ? 'active' : ''} ${checkedIds.has(task.id) ? 'checked' : ''} ${overdue ? 'overdue' : ''}`}
+        onClick={() => onSelect(task.id)}
+      >
+        <div className="task-item-header">
+          <input
+            type="checkbox"
+            aria-label={t.bulk.select(task.title)}
+            checked={checkedIds.has(task.id)}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => handleCheck(e, task.id)}
+          />
+          <div className="task-title">{task.title}</div>
+          <div className="task-actions" onClick={(e) => e.stopPropagation()}>
+            <button
+              className="ghost"
+              onClick={() => {
+                if (window.confirm(t.common.confirmTrash(task.title))) onDelete(task.id)
+              }}
+            >
+              {t.common.delete}
+            </button>
+          </div>
+        </div>
+        <div className="task-meta">
+          <span className={priorityTone[task.priority]}>{t.priority[task.priority]}</span>
+          <span className="badge-outline">{columnName(workflow, task.status)}</span>
+          <LabelChips labelIds={task.labelIds} labels={labels} />
+          <ChecklistProgress items={task.checklist} />
+          <span className="muted">{t.taskList.order(task.order + 1)}</span>
+          {task.dueDate && <span className={overdue ? 'overdue-date' : 'muted'}>{t.common.due(formatDate(task.dueDate))}</span>}
+          {overdue && <span className="badge-outline overdue-flag">{t.smartLists.overdue}</span>}
+          {task.recurrence && <span className="muted">🔁 {describeRecurrence(task.recurrence)}</span>}
+          {task.reminder && task.dueDate && <span className="muted">⏰ {describeReminder(task.reminder)}</span>}
+        </div>
+      </article>
+    )
+  }
+
+  const toggleAll = () => {
+    const next = new Set(checkedIds)
+    order.forEach((id) => (checkedCount === order.length ? next.delete(id) : next.add(id)))
+    onCheckedChange(next)
+  }
+
   return (
     <div className="panel list-panel">
       <div className="panel-header">
         <div>
-          <h3>タスクリスト</h3>
-          <p className="panel-subtitle">軽いリスト操作と素早い切り替え</p>
+          <h3>{t.taskList.title}</h3>
+          <p className="panel-subtitle">{t.taskList.subtitle}</p>
         </div>
         <button className="primary" onClick={onCreate}>
-          + 新規タスク
+          {t.taskList.newTask}
         </button>
       </div>
-      <div className="task-list" role="list">
-        {tasks.length === 0 && <p className="empty">タスクがありません。追加してください。</p>}
-        {sortedTasks.map((task) => (
-          <article
-            key={task.id}
-            role="listitem"
-            className={`task-item ${selectedId === task.id ? 'active' : ''}`}
-            onClick={() => onSelect(task.id)}
-          >
-            <div className="task-item-header">
-              <div className="task-title">{task.title}</div>
-              <div className="task-actions" onClick={(e) => e.stopPropagation()}>
-                <button className="ghost" onClick={() => onDelete(task.id)}>
-                  削除
-                </button>
-              </div>
-            </div>
-            <div className="task-meta">
-              <span className={priorityTone[task.priority]}>{priorityLabel[task.priority]}</span>
-              <span className="badge-outline">{statusLabel[task.status]}</span>
-              <span className="muted">並び順: {task.order + 1}</span>
-              {task.dueDate && <span className="muted">期限: {task.dueDate}</span>}
-            </div>
-          </article>
-        ))}
+      <div className="list-view-controls">
+        <label className="field inline">
+          <span>{t.listView.sort}</span>
+          <select value={view.sort} onChange={(e) => changeView({ sort: e.target.value as SortKey })}>
+            {sortKeys.map((key) => (
+              <option key={key} value={key}>
+                {t.listView.sortKeys[key]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="ghost"
+          aria-label={view.direction === 'asc' ? t.listView.ascending : t.listView.descending}
+          title={view.direction === 'asc' ? t.listView.ascending : t.listView.descending}
+          onClick={() => changeView({ direction: view.direction === 'asc' ? 'desc' : 'asc' })}
+        >
+          {view.direction === 'asc' ? '↑' : '↓'}
+        </button>
+        <label className="field inline">
+          <span>{t.listView.groupBy}</span>
+          <select value={view.groupBy} onChange={(e) => changeView({ groupBy: e.target.value as GroupBy })}>
+            {groupings.map((key) => (
+              <option key={key} value={key}>
+                {t.listView.groups[key]}
+              </option>
+            ))}
+          </select>
+        </label>
       </div>
+      {order.length > 0 && (
+        <label className="select-all small">
+          <input
+            type="checkbox"
+            ref={(node) => {
+              if (node) node.indeterminate = checkedCount > 0 && checkedCount < order.length
+            }}
+            checked={checkedCount > 0 && checkedCount === order.length}
+            onChange={toggleAll}
+          />
+          {checkedCount > 0 ? t.bulk.selected(checkedCount) : t.bulk.selectAll}
+        </label>
+      )}
+      {tasks.length === 0 && <p className="empty">{t.taskList.empty}</p>}
+      {view.groupBy === 'none' ? (
+        <div className="task-list" role="list">
+          {groups.flatMap((group) => group.tasks).map(renderTask)}
+        </div>
+      ) : (
+        groups.map((group) => (
+          <section key={group.key} className="task-group">
+            <button className="task-group-header" aria-expanded={!group.collapsed} onClick={() => toggleGroup(group)}>
+              <span aria-hidden="true">{group.collapsed ? '▸' : '▾'}</span>
+              {groupLabel(group.key)}
+              <span className="muted">{group.tasks.length}</span>
+            </button>
+            {!group.collapsed && (
+              <div className="task-list" role="list" aria-label={groupLabel(group.key)}>
+                {group.tasks.map(renderTask)}
+              </div>
+            )}
+          </section>
+        ))
+      )}
     </div>
   )
 }
-
-const priorityLabel: Record<Task['priority'], string> = {
-  low: '低',
-  medium: '中',
-  high: '高',
-}
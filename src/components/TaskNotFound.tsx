@@ -0,0 +1,22 @@
+import { useI18n } from '../i18n/useI18n'
+
+type TaskNotFoundProps = {
+  taskId: string
+  onBack: () => void
+}
+
+export function TaskNotFound({ taskId, onBack }: TaskNotFoundProps) {
+  const { t } = useI18n()
+
+  return (
+    <section className="panel editor" role="alert">
+      <div className="panel-header">
+        <h3>{t.routing.notFound}</h3>
+      </div>
+      <p className="muted">{t.routing.notFoundBody(taskId)}</p>
+      <button className="primary" onClick={onBack}>
+        {t.routing.back}
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,46 @@
+import { useEffect } from 'react'
+import { useI18n } from '../i18n/useI18n'
+
+export type ToastMessage = {
+  id: string
+  message: string
+  tone?: 'error' | 'warning'
+  actionLabel?: string
+  onAction?: () => void
+}
+
+type ToastProps = {
+  toast?: ToastMessage
+  onDismiss: () => void
+}
+
+export function Toast({ toast, onDismiss }: ToastProps) {
+  const { t } = useI18n()
+  useEffect(() => {
+    if (!toast) return
+    const timer = window.setTimeout(onDismiss, 5000)
+    return () => window.clearTimeout(timer)
+  }, [toast, onDismiss])
+
+  if (!toast) return null
+
+  return (
+    <div className={`toast ${toast.tone ?? ''}`} role={toast.tone === 'error' ? 'alert' : 'status'} aria-live="polite">
+      <span>{toast.message}</span>
+      {toast.actionLabel && toast.onAction && (
+        <button
+          className="link toast-action"
+          onClick={() => {
+            toast.onAction?.()
+            onDismiss()
+          }}
+        >
+          {toast.actionLabel}
+        </button>
+      )}
+      <button className="link toast-close" aria-label={t.common.close} onClick={onDismiss}>
+        ×
+      </button>
+    </div>
+  )
+}
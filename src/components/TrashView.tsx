@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { db, type TaskList } from '../db/database'
+import { formatDate, formatDateTime } from '../i18n'
+import { useI18n } from '../i18n/useI18n'
+
+type TrashViewProps = {
+  lists: TaskList[]
+}
+
+const retentionOptions = [7, 14, 30, 60, 90]
+
+export function TrashView({ lists }: TrashViewProps) {
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+  const trashQuery = useQuery({ queryKey: ['tasks', 'trash'], queryFn: () => db.getTrash() })
+  const retentionQuery = useQuery({ queryKey: ['trashRetention'], queryFn: () => db.getTrashRetentionDays() })
+  const [selected, setSelected] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const trash = trashQuery.data ?? []
+  const selectedIds = selected.filter((id) => trash.some((task) => task.id === id))
+  const retentionDays = retentionQuery.data ?? 30
+
+  const refresh = () => {
+    setSelected([])
+    setError(null)
+    queryClient.invalidateQueries({ queryKey: ['tasks'] })
+  }
+  const fail = (caught: Error) => setError(caught.message)
+
+  const restore = useMutation({ mutationFn: (ids: string[]) => db.restoreTasks(ids), onSuccess: refresh, onError: fail })
+  const purge = useMutation({ mutationFn: (ids: string[]) => db.purgeTasks(ids), onSuccess: refresh, onError: fail })
+  const empty = useMutation({ mutationFn: () => db.emptyTrash(), onSuccess: refresh, onError: fail })
+  const retention = useMutation({
+    mutationFn: (days: number) => db.setTrashRetentionDays(days),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trashRetention'] })
+      refresh()
+    },
+    onError: fail,
+  })
+
+  const toggle = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]))
+
+  const handlePurge = (ids: string[]) => {
+    if (window.confirm(t.trash.confirmPurge(ids.length))) purge.mutate(ids)
+  }
+
+  const handleEmpty = () => {
+    if (window.confirm(t.trash.confirmEmpty)) empty.mutate()
+  }
+
+  const expiresAt = (deletedAt: string) => new Date(Date.parse(deletedAt) + retentionDays * 24 * 60 * 60 * 1000)
+
+  return (
+    <section className="panel trash" aria-label={t.trash.title}>
+      <div className="panel-header">
+        <div>
+          <h3>{t.trash.title}</h3>
+          <p className="panel-subtitle">{t.trash.subtitle(retentionDays)}</p>
+        </div>
+        <label className="inline-field">
+          <span>{t.trash.retention}</span>
+          <select value={retentionDays} onChange={(e) => retention.mutate(Number(e.target.value))}>
+            {retentionOptions.map((days) => (
+              <option key={days} value={days}>
+                {t.trash.days(days)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="task-actions">
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={trash.length > 0 && selectedIds.length === trash.length}
+            disabled={trash.length === 0}
+            onChange={(e) => setSelected(e.target.checked ? trash.map((task) => task.id) : [])}
+          />
+          <span>{t.trash.selectAll}</span>
+        </label>
+        <button className="primary" disabled={!selectedIds.length || restore.isPending} onClick={() => restore.mutate(selectedIds)}>
+          {t.trash.restoreSelected}
+        </button>
+        <button className="ghost" disabled={!selectedIds.length || purge.isPending} onClick={() => handlePurge(selectedIds)}>
+          {t.trash.purgeSelected}
+        </button>
+        <button className="ghost" disabled={!trash.length || empty.isPending} onClick={handleEmpty}>
+          {t.trash.empty}
+        </button>
+      </div>
+      {error && (
+        <p className="search-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {trash.length === 0 && <p className="empty">{t.trash.isEmpty}</p>}
+      <ul className="trash-items">
+        {trash.map((task) => {
+          const list = lists.find((item) => item.id === task.listId)
+          return (
+            <li key={task.id} className="task-item">
+              <label className="checkbox">
+                <input type="checkbox" checked={selectedIds.includes(task.id)} onChange={() => toggle(task.id)} aria-label={t.trash.select(task.title)} />
+                <span className="task-title">{task.title}</span>
+              </label>
+              <div className="task-meta">
+                {list && (
+                  <span className="muted">
+                    {list.icon} {list.name}
+                  </span>
+                )}
+                <span className="muted">{t.trash.deletedAt(formatDateTime(task.deletedAt ?? ''))}</span>
+                <span className="muted">{t.trash.expiresAt(formatDate(expiresAt(task.deletedAt ?? '')))}</span>
+              </div>
+              <div className="task-actions">
+                <button className="ghost" onClick={() => restore.mutate([task.id])}>
+                  {t.common.restore}
+                </button>
+                <button className="ghost" onClick={() => handlePurge([task.id])}>
+                  {t.trash.purge}
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { columnLabel, db, type WipMode, type Workflow, type WorkflowColumn } from '../db/database'
+import { useI18n } from '../i18n/useI18n'
+
+type WorkflowEditorProps = {
+  workflow: Workflow
+}
+
+type ColumnUpdate = Partial<Omit<WorkflowColumn, 'id'>>
+
+export function WorkflowEditor({ workflow }: WorkflowEditorProps) {
+  const queryClient = useQueryClient()
+  const { t } = useI18n()
+  const [draftName, setDraftName] = useState('')
+  const [removing, setRemoving] = useState<{ id: string; targetId: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = () => {
+    setError(null)
+    queryClient.invalidateQueries({ queryKey: ['workflow'] })
+    queryClient.invalidateQueries({ queryKey: ['tasks'] })
+  }
+  const fail = (caught: Error) => setError(caught.message)
+
+  const addColumn = useMutation({ mutationFn: (name: string) => db.addColumn(name), onSuccess: refresh, onError: fail })
+  const updateColumn = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ColumnUpdate }) => db.updateColumn(id, input),
+    onSuccess: refresh,
+    onError: fail,
+  })
+  const moveColumn = useMutation({
+    mutationFn: ({ id, index }: { id: string; index: number }) => db.moveColumn(id, index),
+    onSuccess: refresh,
+    onError: fail,
+  })
+  const setDone = useMutation({ mutationFn: (id: string) => db.setDoneColumn(id), onSuccess: refresh, onError: fail })
+  const deleteColumn = useMutation({
+    mutationFn: ({ id, targetId }: { id: string; targetId: string }) => db.deleteColumn(id, targetId),
+    onSuccess: () => {
+      setRemoving(null)
+      refresh()
+    },
+    onError: fail,
+  })
+
+  const handleAdd = () => {
+    if (!draftName.trim()) return
+    addColumn.mutate(draftName.trim())
+    setDraftName('')
+  }
+
+  const startRemoving = (column: WorkflowColumn) => {
+    const fallback = workflow.columns.find((item) => item.id !== column.id)
+    if (fallback) setRemoving({ id: column.id, targetId: fallback.id })
+  }
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h3>{t.workflow.title}</h3>
+        <p className="panel-subtitle">{t.workflow.subtitle}</p>
+      </div>
+      <ol className="workflow-columns">
+        {workflow.columns.map((column, index) => {
+          const name = columnLabel(column)
+          return (
+            <li key={column.id} className="workflow-column">
+              <div className="workflow-column-row">
+                <input
+                  key={name}
+                  defaultValue={name}
+                  aria-label={t.workflow.name}
+                  onBlur={(e) => {
+                    const next = e.target.value.trim()
+                    if (next && next !== name) updateColumn.mutate({ id: column.id, input: { name: next } })
+                  }}
+                />
+                <button
+                  className="ghost icon"
+                  aria-label={t.workflow.moveLeft(name)}
+                  disabled={index === 0}
+                  onClick={() => moveColumn.mutate({ id: column.id, index: index - 1 })}
+                >
+                  ↑
+                </button>
+                <button
+                  className="ghost icon"
+                  aria-label={t.workflow.moveRight(name)}
+                  disabled={index === workflow.columns.length - 1}
+                  onClick={() => moveColumn.mutate({ id: column.id, index: index + 1 })}
+                >
+                  ↓
+                </button>
+                <button
+                  className="ghost icon"
+                  aria-label={t.common.deleteNamed(name)}
+                  disabled={workflow.columns.length === 1}
+                  onClick={() => startRemoving(column)}
+                >
+                  ×
+                </button>
+              </div>
+              <div className="workflow-column-row">
+                <label className="checkbox">
+                  <input
+                    type="radio"
+                    name="done-column"
+                    checked={workflow.doneColumnId === column.id}
+                    onChange={() => setDone.mutate(column.id)}
+                  />
+                  <span>{t.workflow.done}</span>
+                </label>
+                <label className="inline-field">
+                  <span>WIP</span>
+                  <input
+                    key={column.wipLimit ?? 'none'}
+                    type="number"
+                    min={1}
+                    placeholder={t.workflow.noLimit}
+                    aria-label={t.workflow.wipLimit(name)}
+                    defaultValue={column.wipLimit ?? ''}
+                    onBlur={(e) => {
+                      const wipLimit = e.target.value ? Math.max(1, Math.trunc(Number(e.target.value))) : null
+                      if (wipLimit !== column.wipLimit) updateColumn.mutate({ id: column.id, input: { wipLimit } })
+                    }}
+                  />
+                </label>
+                <select
+                  aria-label={t.workflow.wipMode(name)}
+                  value={column.wipMode}
+                  disabled={column.wipLimit === null}
+                  onChange={(e) => updateColumn.mutate({ id: column.id, input: { wipMode: e.target.value as WipMode } })}
+                >
+                  <option value="warn">{t.workflow.warn}</option>
+                  <option value="block">{t.workflow.block}</option>
+                </select>
+              </div>
+              {removing?.id === column.id && (
+                <div className="workflow-column-row workflow-remove">
+                  <span className="small">{t.workflow.moveTasksTo}</span>
+                  <select value={removing.targetId} onChange={(e) => setRemoving({ id: column.id, targetId: e.target.value })}>
+                    {workflow.columns
+                      .filter((item) => item.id !== column.id)
+                      .map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {columnLabel(item)}
+                        </option>
+                      ))}
+                  </select>
+                  <button className="primary" disabled={deleteColumn.isPending} onClick={() => deleteColumn.mutate(removing)}>
+                    {t.common.delete}
+                  </button>
+                  <button className="ghost" onClick={() => setRemoving(null)}>
+                    {t.common.cancel}
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+      <div className="workflow-create">
+        <input
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd()
+          }}
+          placeholder={t.workflow.placeholder}
+        />
+        <button className="ghost icon" aria-label={t.workflow.add} onClick={handleAdd}>
+          +
+        </button>
+      </div>
+      {error && (
+        <p className="search-error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
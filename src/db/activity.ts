@@ -0,0 +1,30 @@
+import type { ActivityEvent, Task } from './schema'
+
+type WithoutMeta<TEvent> = TEvent extends unknown ? Omit<TEvent, 'id' | 'taskId' | 'at'> : never
+
+type EventPayload = WithoutMeta<ActivityEvent>
+
+export function diffActivity(before: Task | null, after: Task, created: boolean): ActivityEvent[] {
+  const payloads: EventPayload[] = []
+
+  if (created) {
+    payloads.push({ type: 'created', title: after.title })
+  } else if (before && before.updatedAt !== after.updatedAt) {
+    if (!before.deletedAt && after.deletedAt) payloads.push({ type: 'deleted' })
+    if (before.deletedAt && !after.deletedAt) payloads.push({ type: 'restored' })
+    if (before.status !== after.status) payloads.push({ type: 'status', from: before.status, to: after.status })
+    if (before.priority !== after.priority) payloads.push({ type: 'priority', from: before.priority, to: after.priority })
+    if ((before.dueDate ?? null) !== (after.dueDate ?? null)) {
+      payloads.push({ type: 'dueDate', from: before.dueDate ?? null, to: after.dueDate ?? null })
+    }
+    if (before.status === after.status && before.listId === after.listId && before.order !== after.order && !after.deletedAt) {
+      payloads.push({ type: 'reordered', status: after.status, from: before.order, to: after.order })
+    }
+  }
+
+  return payloads.map((payload) => ({ ...payload, id: crypto.randomUUID(), taskId: after.id, at: after.updatedAt }) as ActivityEvent)
+}
+
+export function byTime(a: ActivityEvent, b: ActivityEvent) {
+  return a.at.localeCompare(b.at)
+}
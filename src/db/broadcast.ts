@@ -0,0 +1,73 @@
+const CHANNEL_NAME = 'tanstack-todo'
+const FALLBACK_KEY = 'tanstack-todo/broadcast'
+
+export type Tombstone = {
+  id: string
+  at: string
+}
+
+export type ChangeMessage = {
+  origin: string
+  collection: string
+  put: unknown[]
+  remove: Tombstone[]
+}
+
+export interface ChangeChannel {
+  post(message: ChangeMessage): void
+  subscribe(listener: (message: ChangeMessage) => void): () => void
+}
+
+function isChangeMessage(value: unknown): value is ChangeMessage {
+  if (!value || typeof value !== 'object') return false
+  const message = value as Partial<ChangeMessage>
+  return typeof message.origin === 'string' && typeof message.collection === 'string' && Array.isArray(message.put) && Array.isArray(message.remove)
+}
+
+function createBroadcastChannel(name: string): ChangeChannel {
+  const channel = new BroadcastChannel(name)
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handler = (event: MessageEvent) => {
+        if (isChangeMessage(event.data)) listener(event.data)
+      }
+      channel.addEventListener('message', handler)
+      return () => channel.removeEventListener('message', handler)
+    },
+  }
+}
+
+function createStorageEventChannel(storage: Storage): ChangeChannel {
+  return {
+    post: (message) => {
+      storage.setItem(FALLBACK_KEY, JSON.stringify({ ...message, nonce: crypto.randomUUID() }))
+    },
+    subscribe: (listener) => {
+      const handler = (event: StorageEvent) => {
+        if (event.key !== FALLBACK_KEY || !event.newValue) return
+        try {
+          const message: unknown = JSON.parse(event.newValue)
+          if (isChangeMessage(message)) listener(message)
+        } catch {
+          return
+        }
+      }
+      window.addEventListener('storage', handler)
+      return () => window.removeEventListener('storage', handler)
+    },
+  }
+}
+
+function createNoopChannel(): ChangeChannel {
+  return {
+    post: () => undefined,
+    subscribe: () => () => undefined,
+  }
+}
+
+export function createChangeChannel(name = CHANNEL_NAME): ChangeChannel {
+  if (typeof BroadcastChannel !== 'undefined') return createBroadcastChannel(name)
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') return createStorageEventChannel(localStorage)
+  return createNoopChannel()
+}
@@ -0,0 +1,108 @@
+import { z } from 'zod'
+import type { ChangeChannel, ChangeMessage } from './broadcast'
+import { recordId, type StorageAdapter } from './storage'
+
+type StoredEntity = { id: string; updatedAt?: string }
+
+const versionOf = (record: StoredEntity) => (record.updatedAt ? Date.parse(record.updatedAt) : 0)
+
+export type RejectedRecord = {
+  payload: unknown
+  reason: string
+}
+
+type CollectionStoreOptions<TSchema extends z.ZodType<StoredEntity>> = {
+  name: string
+  schema: TSchema
+  storage: StorageAdapter
+  channel: ChangeChannel
+  origin: string
+}
+
+export class CollectionStore<TSchema extends z.ZodType<StoredEntity>> {
+  private records: z.infer<TSchema>[] = []
+  private writes: Promise<void> = Promise.resolve()
+  private readonly options: CollectionStoreOptions<TSchema>
+
+  constructor(options: CollectionStoreOptions<TSchema>) {
+    this.options = options
+  }
+
+  get name() {
+    return this.options.name
+  }
+
+  all(): z.infer<TSchema>[] {
+    return [...this.records]
+  }
+
+  find(id: string) {
+    return this.records.find((record) => record.id === id)
+  }
+
+  async load(quarantine: (rejected: RejectedRecord[]) => Promise<void>) {
+    const saved = (await this.options.storage.load(this.options.name)) ?? []
+    const rejected: RejectedRecord[] = []
+    const rejectedIds: string[] = []
+    this.records = saved.flatMap((record, index) => {
+      const parsed = this.options.schema.safeParse(record)
+      if (parsed.success) return [parsed.data]
+      rejected.push({ payload: record, reason: z.prettifyError(parsed.error) })
+      rejectedIds.push(recordId(record, index))
+      return []
+    })
+    if (rejected.length) {
+      await quarantine(rejected)
+      await this.options.storage.commit(this.options.name, { put: [], remove: rejectedIds })
+    }
+  }
+
+  put(records: z.infer<TSchema>[]) {
+    const parsed = records.map((record) => this.options.schema.parse(record))
+    parsed.forEach((record) => {
+      const idx = this.records.findIndex((item) => item.id === record.id)
+      if (idx === -1) {
+        this.records.push(record)
+      } else {
+        this.records[idx] = record
+      }
+    })
+    return this.write(parsed, [])
+  }
+
+  remove(ids: string[]) {
+    this.records = this.records.filter((record) => !ids.includes(record.id))
+    return this.write([], ids)
+  }
+
+  applyRemote(message: ChangeMessage) {
+    let changed = false
+    for (const tombstone of message.remove) {
+      const local = this.find(tombstone.id)
+      if (!local || versionOf(local) > Date.parse(tombstone.at)) continue
+      this.records = this.records.filter((record) => record.id !== tombstone.id)
+      changed = true
+    }
+    for (const record of message.put) {
+      const parsed = this.options.schema.safeParse(record)
+      if (!parsed.success) continue
+      const local = this.find(parsed.data.id)
+      if (local && versionOf(local) > versionOf(parsed.data)) continue
+      this.records = [...this.records.filter((item) => item.id !== parsed.data.id), parsed.data]
+      changed = true
+    }
+    return changed
+  }
+
+  private write(put: z.infer<TSchema>[], remove: string[]) {
+    const { storage, channel, name, origin } = this.options
+    const removedAt = new Date().toISOString()
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(() => storage.commit(name, { put, remove }))
+      .then(() => {
+        channel.post({ origin, collection: name, put, remove: remove.map((id) => ({ id, at: removedAt })) })
+      })
+    return this.writes
+  }
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest'
+import { noopChannel as channel, sharedChannel } from '../test/fixtures'
+import { TanStackDatabase } from './database'
+import { createMemoryStorage, type StorageAdapter } from './storage'
+import { exportJson, parseImport } from './transfer'
+
+function failingStorage() {
+  const storage = createMemoryStorage()
+  const state = { fail: false }
+  const adapter: StorageAdapter = {
+    ...storage,
+    commit: (collection, changes) => (state.fail ? Promise.reject(new Error('disk full')) : storage.commit(collection, changes)),
+  }
+  return { storage: adapter, state }
+}
+
+async function seed(database: TanStackDatabase, titles: string[], status = 'todo') {
+  const created = []
+  for (const title of titles) created.push(await database.addTask({ title, status }))
+  return created
+}
+
+function titles(tasks: { title: string; status: string; order: number }[], status: string) {
+  return tasks
+    .filter((task) => task.status === status)
+    .sort((a, b) => a.order - b.order)
+    .map((task) => task.title)
+}
+
+describe('TanStackDatabase.moveTask', () => {
+  it('reorders within a column and persists the result', async () => {
+    const storage = createMemoryStorage()
+    const database = new TanStackDatabase({ storage, channel })
+    const [a] = await seed(database, ['a', 'b', 'c'])
+    await database.moveTask(a.id, 'todo', 2)
+    expect(titles(await database.getTasks(), 'todo')).toEqual(['b', 'c', 'a'])
+
+    const reloaded = new TanStackDatabase({ storage, channel })
+    expect(titles(await reloaded.getTasks(), 'todo')).toEqual(['b', 'c', 'a'])
+  })
+
+  it('moves across columns and clamps the index', async () => {
+    const database = new TanStackDatabase({ storage: createMemoryStorage(), channel })
+    const [a, b] = await seed(database, ['a', 'b'])
+    await seed(database, ['d'], 'done')
+    await database.moveTask(a.id, 'done', 99)
+    await database.moveTask(b.id, 'done', -1)
+    const tasks = await database.getTasks()
+    expect(titles(tasks, 'todo')).toEqual([])
+    expect(titles(tasks, 'done')).toEqual(['b', 'd', 'a'])
+  })
+
+  it('keeps lists separate', async () => {
+    const database = new TanStackDatabase({ storage: createMemoryStorage(), channel })
+    const work = await database.addList({ name: 'work', color: '#000000', icon: '💼' })
+    const [a] = await seed(database, ['a', 'b'])
+    await database.addTask({ title: 'w', status: 'todo', listId: work.id })
+    await database.moveTask(a.id, 'todo', 1)
+    const tasks = await database.getTasks()
+    expect(
+      titles(
+        tasks.filter((task) => task.listId === work.id),
+        'todo',
+      ),
+    ).toEqual(['w'])
+    expect(tasks.find((task) => task.title === 'w')?.order).toBe(0)
+  })
+})
+
+describe('TanStackDatabase transactions', () => {
+  it('rolls back a move when the storage commit rejects', async () => {
+    const { storage, state } = failingStorage()
+    const database = new TanStackDatabase({ storage, channel })
+    const [a] = await seed(database, ['a', 'b'])
+    const before = await database.getTasks()
+    const canUndo = database.canUndo
+
+    state.fail = true
+    await expect(database.moveTask(a.id, 'done', 0)).rejects.toThrow('disk full')
+    expect(await database.getTasks()).toEqual(before)
+    expect(database.canUndo).toBe(canUndo)
+
+    state.fail = false
+    await database.moveTask(a.id, 'done', 0)
+    const reloaded = new TanStackDatabase({ storage, channel })
+    expect(titles(await reloaded.getTasks(), 'done')).toEqual(['a'])
+  })
+
+  it('applies every update of a batch or none of them', async () => {
+    const { storage, state } = failingStorage()
+    const database = new TanStackDatabase({ storage, channel })
+    const [a, b] = await seed(database, ['a', 'b'])
+    const before = await database.getTasks()
+
+    state.fail = true
+    await expect(
+      database.batch([
+        { id: a.id, priority: 'high' },
+        { id: b.id, status: 'done' },
+      ]),
+    ).rejects.toThrow('disk full')
+    expect(await database.getTasks()).toEqual(before)
+
+    state.fail = false
+    expect(await new TanStackDatabase({ storage, channel }).getTasks()).toEqual(before)
+    await expect(database.batch([{ id: a.id, priority: 'high' }, { id: 'missing' }])).rejects.toThrow('Task not found')
+    expect(await database.getTasks()).toEqual(before)
+  })
+})
+
+describe('TanStackDatabase history', () => {
+  it('does not undo over a change made in another tab', async () => {
+    const storage = createMemoryStorage()
+    const tabs = sharedChannel()
+    const tabA = new TanStackDatabase({ storage, channel: tabs })
+    const tabB = new TanStackDatabase({ storage, channel: tabs })
+    const [created] = await seed(tabA, ['draft'])
+    await tabB.updateTask({ id: created.id, title: 'renamed in B' })
+    await new Promise((resolve) => setTimeout(resolve))
+
+    expect(tabA.canUndo).toBe(false)
+    await tabA.undo()
+    expect((await tabA.getTasks()).map((task) => task.title)).toEqual(['renamed in B'])
+    expect((await new TanStackDatabase({ storage, channel }).getTasks()).map((task) => task.title)).toEqual(['renamed in B'])
+  })
+
+  it('keeps history for tasks another tab did not touch', async () => {
+    const tabs = sharedChannel()
+    const storage = createMemoryStorage()
+    const tabA = new TanStackDatabase({ storage, channel: tabs })
+    const tabB = new TanStackDatabase({ storage, channel: tabs })
+    const [mine] = await seed(tabA, ['mine'])
+    await tabB.addTask({ title: 'theirs' })
+    await new Promise((resolve) => setTimeout(resolve))
+
+    await tabA.undo()
+    expect((await tabA.getTasks()).map((task) => task.title)).toEqual(['theirs'])
+    expect((await tabA.getTasks()).some((task) => task.id === mine.id)).toBe(false)
+  })
+})
+
+describe('TanStackDatabase trash retention', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000
+
+  it('purges expired trash on startup together with its history and activity', async () => {
+    const storage = createMemoryStorage()
+    const database = new TanStackDatabase({ storage, channel })
+    const [a] = await seed(database, ['a', 'b'])
+    await database.deleteTask(a.id)
+
+    const saved = (await storage.load('tasks')) as { id: string; deletedAt: string | null }[]
+    const aged = saved
+      .filter((task) => task.id === a.id)
+      .map((task) => ({ ...task, deletedAt: new Date(Date.now() - 31 * DAY_MS).toISOString() }))
+    await storage.commit('tasks', { put: aged, remove: [] })
+
+    const reloaded = new TanStackDatabase({ storage, channel })
+    expect(await reloaded.getTrash()).toEqual([])
+    expect(await reloaded.getActivity(a.id)).toEqual([])
+    expect((await storage.load('tasks'))?.map((task) => (task as { id: string }).id)).not.toContain(a.id)
+    while (reloaded.canUndo) await reloaded.undo()
+    expect((await reloaded.getTasks({ includeTrashed: true })).map((task) => task.id)).not.toContain(a.id)
+  })
+
+  it('purges trash that expires while the database is open', async () => {
+    const database = new TanStackDatabase({ storage: createMemoryStorage(), channel })
+    const [a] = await seed(database, ['a'])
+    await database.deleteTask(a.id)
+    await database.purgeExpired(Date.now() + 29 * DAY_MS)
+    expect(await database.getTrash()).toHaveLength(1)
+    await database.purgeExpired(Date.now() + 31 * DAY_MS)
+    expect(await database.getTrash()).toEqual([])
+    expect(database.canUndo).toBe(false)
+  })
+})
+
+describe('TanStackDatabase import', () => {
+  it('keeps trashed tasks in the trash when restoring a JSON backup', async () => {
+    const source = new TanStackDatabase({ storage: createMemoryStorage(), channel })
+    const [a] = await seed(source, ['a', 'b'])
+    await source.deleteTask(a.id)
+    const backup = exportJson(await source.getTasks({ includeTrashed: true }), [], [])
+
+    const target = new TanStackDatabase({ storage: createMemoryStorage(), channel })
+    await target.importTasks(parseImport(backup, 'json'), { mode: 'replace', duplicates: 'skip' })
+    expect((await target.getTasks()).map((task) => task.title)).toEqual(['b'])
+    expect((await target.getTrash()).map((task) => task.id)).toEqual([a.id])
+  })
+})
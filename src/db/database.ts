@@ -1,7 +1,78 @@
 import { z } from 'zod'
-import { taskInputSchema, taskSchema, type Task, type TaskInput, type TaskPriority, type TaskStatus, type TaskUpdate } from './schema'
+import { isLocale, messages, type Locale } from '../i18n'
+import { byTime, diffActivity } from './activity'
+import { createChangeChannel, type ChangeChannel, type ChangeMessage } from './broadcast'
+import { CollectionStore, type RejectedRecord } from './collectionStore'
+import { migrateRecord, salvageTask, TASK_SCHEMA_VERSION } from './migrations'
+import { byBoardPosition, moveTasksInBoard } from './ordering'
+import { evaluateQuery, queryTouchesStatus, type TaskQuery } from './query'
+import { addDays, localDate, localToday, nextOccurrence } from './recurrence'
+import { systemClock, type Clock } from './reminders'
+import { matchesSmartList, type SmartListId } from './smartLists'
+import {
+  activityEventSchema,
+  DEFAULT_LIST_ID,
+  DEFAULT_LIST_VIEW,
+  historyStateSchema,
+  labelInputSchema,
+  labelSchema,
+  listViewSchema,
+  quarantineEntrySchema,
+  syncChangeSchema,
+  taskInputSchema,
+  taskListInputSchema,
+  taskListSchema,
+  taskSchema,
+  type ActivityEvent,
+  type HistoryEntry,
+  type Label,
+  type LabelInput,
+  type ListView,
+  type QuarantineEntry,
+  type SyncChange,
+  type Task,
+  type TaskChange,
+  type TaskList,
+  type TaskListInput,
+  type TaskInput,
+  type TaskPriority,
+  type TaskStatus,
+  type TaskUpdate,
+  type Workflow,
+  type WorkflowColumn,
+  workflowColumnSchema,
+  workflowSchema,
+} from './schema'
+import {
+  createHttpTransport,
+  diffFields,
+  DISABLED_SYNC_STATUS,
+  mergeChange,
+  mergeRemote,
+  SyncEngine,
+  syncStateSchema,
+  type PullResponse,
+  type SyncSettings,
+  type SyncStatus,
+  type SyncTransport,
+} from './sync'
+import { CorruptedStorageError, createDefaultStorage, recordId, type StorageAdapter, type StorageKind } from './storage'
+import { previewImport, type ImportBundle, type ImportOptions } from './transfer'
+import { columnName, DEFAULT_WORKFLOW, findColumn, initialStatus, isDoneStatus, resolveStatus } from './workflow'
 
-const STORAGE_KEY = 'tanstack-todo/tasks'
+const SCHEMA_VERSION_KEY = 'schemaVersion:tasks'
+const HISTORY_KEY = 'history:tasks'
+const HISTORY_LIMIT = 50
+const TRASH_RETENTION_KEY = 'trash:retentionDays'
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+const WORKFLOW_KEY = 'workflow'
+const WORKFLOW_CHANNEL = 'workflow'
+const LOCALE_KEY = 'locale'
+const LIST_VIEW_KEY = 'listView'
+const SYNC_KEY = 'sync'
+const SYNC_CHANNEL = 'sync'
+const REMINDERS_KEY = 'reminders:delivered'
 
 type CollectionConfig<TSchema extends z.ZodTypeAny> = {
   name: string
@@ -9,12 +80,6 @@ type CollectionConfig<TSchema extends z.ZodTypeAny> = {
   primaryKey: keyof z.infer<TSchema>
 }
 
-const statusOrder: Record<TaskStatus, number> = {
-  todo: 0,
-  'in-progress': 1,
-  done: 2,
-}
-
 export function createCollection<TSchema extends z.ZodTypeAny>(config: CollectionConfig<TSchema>) {
   return config
 }
@@ -25,169 +90,1119 @@ export const taskCollection = createCollection({
   primaryKey: 'id' as const,
 })
 
+export const labelCollection = createCollection({
+  name: 'labels',
+  schema: labelSchema,
+  primaryKey: 'id' as const,
+})
+
+export const listCollection = createCollection({
+  name: 'lists',
+  schema: taskListSchema,
+  primaryKey: 'id' as const,
+})
+
+export const activityCollection = createCollection({
+  name: 'activity',
+  schema: activityEventSchema,
+  primaryKey: 'id' as const,
+})
+
+export const outboxCollection = createCollection({
+  name: 'outbox',
+  schema: syncChangeSchema,
+  primaryKey: 'id' as const,
+})
+
+export const quarantineCollection = createCollection({
+  name: 'quarantine',
+  schema: quarantineEntrySchema,
+  primaryKey: 'id' as const,
+})
+
+export type RecoveryResult = {
+  recovered: Task[]
+  failed: QuarantineEntry[]
+}
+
+type DatabaseOptions = {
+  storage?: StorageAdapter
+  channel?: ChangeChannel
+  transport?: (endpoint: string) => SyncTransport
+  clock?: Clock
+}
+
 export type TaskFilter = {
+  listId?: string | 'all'
   status?: TaskStatus | 'all'
   priority?: TaskPriority | 'all'
   includeDone?: boolean
   dueBefore?: string
+  labelIds?: string[]
+  labelMode?: 'any' | 'all'
+  query?: TaskQuery
+  smartList?: SmartListId
+  includeTrashed?: boolean
+}
+
+export type BulkChange = {
+  status?: TaskStatus
+  priority?: TaskPriority
+  dueShiftDays?: number
+  myDay?: boolean
+}
+
+export type ImportResult = {
+  added: number
+  updated: number
+  skipped: number
 }
 
-class TanStackDatabase {
+export class TanStackDatabase {
   private tasks: Task[] = []
-  private storage: Storage
-
-  constructor() {
-    this.storage = typeof localStorage !== 'undefined' ? localStorage : this.createMemoryStorage()
-    this.bootstrap()
-  }
-
-  private createMemoryStorage(): Storage {
-    const memory = new Map<string, string>()
-    return {
-      length: memory.size,
-      clear: () => memory.clear(),
-      getItem: (key: string) => memory.get(key) ?? null,
-      key: (index: number) => Array.from(memory.keys())[index] ?? null,
-      removeItem: (key: string) => memory.delete(key),
-      setItem: (key: string, value: string) => {
-        memory.set(key, value)
+  private persisted = new Map<string, string>()
+  private writes: Promise<void> = Promise.resolve()
+  private storage: StorageAdapter
+  private channel: ChangeChannel
+  private listeners = new Set<() => void>()
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  private retentionDays = DEFAULT_TRASH_RETENTION_DAYS
+  private workflow: Workflow = DEFAULT_WORKFLOW
+  private readonly tabId = crypto.randomUUID()
+  private labels: CollectionStore<typeof labelSchema>
+  private lists: CollectionStore<typeof taskListSchema>
+  private activity: CollectionStore<typeof activityEventSchema>
+  private outbox: CollectionStore<typeof syncChangeSchema>
+  private syncSettings: SyncSettings | null = null
+  private syncEngine: SyncEngine | null = null
+  private syncListeners = new Set<() => void>()
+  private createTransport: (endpoint: string) => SyncTransport
+  private clock: Clock
+  readonly ready: Promise<void>
+
+  constructor({
+    storage = createDefaultStorage(),
+    channel = createChangeChannel(),
+    transport = createHttpTransport,
+    clock = systemClock,
+  }: DatabaseOptions = {}) {
+    this.storage = storage
+    this.channel = channel
+    this.createTransport = transport
+    this.clock = clock
+    this.labels = new CollectionStore({ ...labelCollection, storage, channel, origin: this.tabId })
+    this.lists = new CollectionStore({ ...listCollection, storage, channel, origin: this.tabId })
+    this.activity = new CollectionStore({ ...activityCollection, storage, channel, origin: this.tabId })
+    this.outbox = new CollectionStore({ ...outboxCollection, storage, channel, origin: this.tabId })
+    this.ready = this.bootstrap()
+    this.channel.subscribe((message) => {
+      if (message.origin === this.tabId) return
+      if (message.collection === taskCollection.name) {
+        void this.applyRemoteChanges(message)
+      } else if (message.collection === WORKFLOW_CHANNEL) {
+        void this.applyRemoteWorkflow(message)
+      } else if (message.collection === SYNC_CHANNEL) {
+        void this.applyRemoteSync(message)
+      } else {
+        const store = [this.labels, this.lists, this.activity, this.outbox].find((candidate) => candidate.name === message.collection)
+        void this.ready.then(() => {
+          if (store?.applyRemote(message)) this.notify()
+        })
+      }
+    })
+  }
+
+  get storageKind(): StorageKind {
+    return this.storage.kind
+  }
+
+  private async bootstrap() {
+    const version = (await this.storage.getMeta<number>(SCHEMA_VERSION_KEY)) ?? 0
+    let saved: unknown[] | null = null
+    try {
+      saved = await this.storage.load(taskCollection.name)
+    } catch (error) {
+      if (!(error instanceof CorruptedStorageError)) throw error
+      await this.quarantine([{ payload: error.raw, reason: messages().errors.unreadableJson }], version)
+      await this.storage.clear(taskCollection.name)
+    }
+
+    const valid: Task[] = []
+    const rejected: RejectedRecord[] = []
+    saved?.forEach((record, index) => {
+      this.persisted.set(recordId(record, index), JSON.stringify(record))
+      try {
+        const parsed = taskSchema.safeParse(migrateRecord(record, version))
+        if (parsed.success) {
+          valid.push(parsed.data)
+        } else {
+          rejected.push({ payload: record, reason: z.prettifyError(parsed.error) })
+        }
+      } catch (error) {
+        rejected.push({ payload: record, reason: error instanceof Error ? error.message : String(error) })
+      }
+    })
+
+    await this.quarantine(rejected, version)
+    await this.activity.load((rejectedEvents) => this.quarantine(rejectedEvents, 0, activityCollection.name))
+    this.retentionDays = (await this.storage.getMeta<number>(TRASH_RETENTION_KEY)) ?? DEFAULT_TRASH_RETENTION_DAYS
+    const workflow = workflowSchema.safeParse(await this.storage.getMeta(WORKFLOW_KEY))
+    if (workflow.success) this.workflow = workflow.data
+    await this.outbox.load((rejectedChanges) => this.quarantine(rejectedChanges, 0, outboxCollection.name))
+    const sync = syncStateSchema.safeParse(await this.storage.getMeta(SYNC_KEY))
+    if (sync.success) this.syncSettings = sync.data
+    this.tasks = this.normalizeOrders(valid.map((task) => ({ ...task, status: resolveStatus(this.workflow, task.status) })))
+    await this.persist()
+    if (version < TASK_SCHEMA_VERSION) {
+      await this.storage.setMeta(SCHEMA_VERSION_KEY, TASK_SCHEMA_VERSION)
+    }
+
+    await this.labels.load((rejectedLabels) => this.quarantine(rejectedLabels, 0, labelCollection.name))
+    await this.lists.load((rejectedLists) => this.quarantine(rejectedLists, 0, listCollection.name))
+    if (!this.lists.find(DEFAULT_LIST_ID)) {
+      const timestamp = this.now()
+      await this.lists.put([
+        { id: DEFAULT_LIST_ID, name: messages().errors.defaultListName, color: '#4f46e5', icon: '📥', createdAt: timestamp, updatedAt: timestamp },
+      ])
+    }
+
+    const history = historyStateSchema.safeParse(await this.storage.getMeta(HISTORY_KEY))
+    if (history.success) {
+      this.undoStack = history.data.undo
+      this.redoStack = history.data.redo
+    }
+
+    const expired = this.tasks.filter((task) => this.isExpired(task)).map((task) => task.id)
+    if (expired.length) {
+      this.tasks = this.tasks.filter((task) => !expired.includes(task.id))
+      await this.persist()
+      await this.discardHistory(expired)
+    }
+
+    if (this.syncSettings) this.startSync(this.syncSettings.endpoint)
+  }
+
+  private async quarantine(rejected: RejectedRecord[], schemaVersion: number, collection: string = taskCollection.name) {
+    if (!rejected.length) return
+    const quarantinedAt = this.now()
+    const entries = rejected.map((item) =>
+      quarantineEntrySchema.parse({
+        id: crypto.randomUUID(),
+        collection,
+        payload: item.payload,
+        reason: item.reason,
+        schemaVersion,
+        quarantinedAt,
+      }),
+    )
+    await this.storage.commit(quarantineCollection.name, { put: entries, remove: [] })
+  }
+
+  private persist(label?: string, outgoing = true) {
+    const previous = this.persisted
+    const next = new Map(this.tasks.map((task) => [task.id, JSON.stringify(task)]))
+    const put = this.tasks.filter((task) => previous.get(task.id) !== next.get(task.id))
+    const remove = Array.from(previous.keys()).filter((id) => !next.has(id))
+    this.persisted = next
+    if (!put.length && !remove.length) return this.writes
+
+    const snapshot = (id: string) => {
+      const saved = previous.get(id)
+      if (!saved) return null
+      const parsed = taskSchema.safeParse(JSON.parse(saved))
+      return parsed.success ? parsed.data : null
+    }
+
+    const events = put.flatMap((task) => diffActivity(snapshot(task.id), task, !previous.has(task.id)))
+    const removedAt = this.now()
+    const changes: SyncChange[] =
+      outgoing && this.syncSettings
+        ? [
+            ...put.map((task) => ({ id: task.id, fields: diffFields(snapshot(task.id), task, removedAt), deletedAt: null, updatedAt: removedAt })),
+            ...remove.map((id) => ({ id, fields: {}, deletedAt: removedAt, updatedAt: removedAt })),
+          ]
+        : []
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(() => this.storage.commit(taskCollection.name, { put, remove }))
+      .then(() => {
+        if (label) {
+          this.record(label, [
+            ...put.map((task) => ({ id: task.id, before: snapshot(task.id), after: task })),
+            ...remove.map((id) => ({ id, before: snapshot(id), after: null })),
+          ])
+        }
+        this.channel.post({
+          origin: this.tabId,
+          collection: taskCollection.name,
+          put,
+          remove: remove.map((id) => ({ id, at: removedAt })),
+        })
+      })
+      .then(() => {
+        if (events.length) return this.activity.put(events).catch(() => undefined)
+      })
+      .then(() => {
+        if (changes.length) return this.enqueue(changes)
+      })
+    return this.writes
+  }
+
+  private async enqueue(changes: SyncChange[]) {
+    await this.outbox.put(changes.map((change) => mergeChange(this.outbox.find(change.id), change)))
+    this.syncEngine?.requestSync()
+  }
+
+  private startSync(endpoint: string) {
+    this.syncEngine?.stop()
+    this.syncEngine = new SyncEngine({
+      transport: this.createTransport(endpoint),
+      clock: this.clock,
+      target: {
+        pendingChanges: () => this.outbox.all(),
+        acknowledge: (sent) => this.acknowledge(sent),
+        applyPulled: (response) => this.applyPulled(response),
+        cursor: () => this.syncSettings?.cursor ?? 0,
       },
+    })
+    this.syncEngine.subscribe(() => this.syncListeners.forEach((listener) => listener()))
+    this.syncEngine.start()
+  }
+
+  private stopSync() {
+    this.syncEngine?.stop()
+    this.syncEngine = null
+    this.syncListeners.forEach((listener) => listener())
+  }
+
+  private async applyRemoteSync(message: ChangeMessage) {
+    await this.ready
+    const parsed = syncStateSchema.safeParse(message.put[0])
+    const settings = parsed.success ? parsed.data : null
+    if (settings?.endpoint === this.syncSettings?.endpoint) return
+    this.stopSync()
+    this.syncSettings = settings
+    if (settings) this.startSync(settings.endpoint)
+  }
+
+  private async acknowledge(sent: SyncChange[]) {
+    const delivered = sent.filter((change) => this.outbox.find(change.id)?.updatedAt === change.updatedAt)
+    await this.outbox.remove(delivered.map((change) => change.id))
+  }
+
+  private async applyPulled(response: PullResponse) {
+    const removed = new Set(response.removed.map((tombstone) => tombstone.id))
+    let tasks = this.tasks.filter((task) => !removed.has(task.id))
+    let changed = tasks.length !== this.tasks.length
+    const touched = new Set(removed)
+
+    for (const record of response.records) {
+      const parsed = taskSchema.safeParse(record.task)
+      if (!parsed.success || removed.has(parsed.data.id)) continue
+      const local = tasks.find((task) => task.id === parsed.data.id)
+      const merged = mergeRemote(parsed.data, record.clocks, local, this.outbox.find(parsed.data.id))
+      const next = { ...merged, status: resolveStatus(this.workflow, merged.status) }
+      if (local && JSON.stringify(local) === JSON.stringify(next)) continue
+      tasks = [...tasks.filter((task) => task.id !== next.id), next]
+      touched.add(next.id)
+      changed = true
     }
+
+    if (changed) {
+      this.tasks = tasks
+      await this.persist(undefined, false)
+      await this.forget(Array.from(touched))
+    }
+    const dropped = Array.from(removed).filter((id) => this.outbox.find(id))
+    if (dropped.length) await this.outbox.remove(dropped)
+    if (this.syncSettings) {
+      this.syncSettings = { ...this.syncSettings, cursor: response.cursor }
+      await this.storage.setMeta(SYNC_KEY, this.syncSettings)
+    }
+    if (changed) this.notify()
+  }
+
+  private record(label: string, changes: TaskChange[]) {
+    this.undoStack.push({ id: crypto.randomUUID(), label, at: this.now(), changes })
+    this.undoStack = this.undoStack.slice(-HISTORY_LIMIT)
+    this.redoStack = []
+    void this.saveHistory()
+  }
+
+  private async forget(ids: string[]) {
+    const keep = (entry: HistoryEntry) => !entry.changes.some((change) => ids.includes(change.id))
+    const undo = this.undoStack.filter(keep)
+    const redo = this.redoStack.filter(keep)
+    if (undo.length === this.undoStack.length && redo.length === this.redoStack.length) return
+    this.undoStack = undo
+    this.redoStack = redo
+    await this.saveHistory()
+  }
+
+  private saveHistory() {
+    return this.storage.setMeta(HISTORY_KEY, { undo: this.undoStack, redo: this.redoStack })
+  }
+
+  private restore(changes: TaskChange[], side: 'before' | 'after') {
+    const timestamp = this.now()
+    changes.forEach((change) => {
+      const target = change[side]
+      this.tasks = this.tasks.filter((task) => task.id !== change.id)
+      if (target) this.tasks.push({ ...target, updatedAt: timestamp })
+    })
+    this.tasks = this.normalizeOrders(this.tasks)
   }
 
-  private bootstrap() {
-    const saved = this.storage.getItem(STORAGE_KEY)
-    if (saved) {
-      const parsed = z.array(taskSchema).safeParse(JSON.parse(saved))
-      if (parsed.success) {
-        this.tasks = this.normalizeOrders(parsed.data)
-        return
+  private async applyRemoteChanges(message: ChangeMessage) {
+    await this.ready
+    let changed = false
+    const touched: string[] = []
+
+    for (const tombstone of message.remove) {
+      const local = this.tasks.find((task) => task.id === tombstone.id)
+      if (local && Date.parse(local.updatedAt) > Date.parse(tombstone.at)) continue
+      this.tasks = this.tasks.filter((task) => task.id !== tombstone.id)
+      this.persisted.delete(tombstone.id)
+      touched.push(tombstone.id)
+      changed ||= Boolean(local)
+    }
+
+    for (const record of message.put) {
+      const parsed = taskSchema.safeParse(record)
+      if (!parsed.success) continue
+      const incoming = parsed.data
+      const idx = this.tasks.findIndex((task) => task.id === incoming.id)
+      if (idx !== -1 && Date.parse(this.tasks[idx].updatedAt) > Date.parse(incoming.updatedAt)) continue
+      if (idx === -1 || JSON.stringify(this.tasks[idx]) !== JSON.stringify(incoming)) touched.push(incoming.id)
+      if (idx === -1) {
+        this.tasks.push(incoming)
+      } else {
+        this.tasks[idx] = incoming
       }
+      this.persisted.set(incoming.id, JSON.stringify(incoming))
+      changed = true
     }
 
-    this.persist()
+    if (touched.length) await this.forget(touched)
+    if (changed) this.notify()
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener())
   }
 
-  private persist() {
-    this.storage.setItem(STORAGE_KEY, JSON.stringify(this.tasks))
+  subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
   }
 
   private now() {
     return new Date().toISOString()
   }
 
-  private nextOrderForStatus(status: TaskStatus) {
-    const inStatus = this.tasks.filter((task) => task.status === status)
+  private isExpired(task: Task, now = Date.now()) {
+    return task.deletedAt !== null && now - Date.parse(task.deletedAt) >= this.retentionDays * DAY_MS
+  }
+
+  private nextOrder(tasks: Task[], listId: string, status: TaskStatus) {
+    const inStatus = tasks.filter((task) => !task.deletedAt && task.listId === listId && task.status === status)
     if (inStatus.length === 0) return 0
     return Math.max(...inStatus.map((task) => task.order ?? 0)) + 1
   }
 
-  private normalizeOrders(tasks: Task[]) {
-    const buckets: Record<TaskStatus, Task[]> = {
-      todo: [],
-      'in-progress': [],
-      done: [],
+  private async transact(apply: (draft: Task[]) => string[], describe: (tasks: Task[]) => string | undefined): Promise<Task[]> {
+    await this.ready
+    const previousTasks = this.tasks
+    const previousPersisted = this.persisted
+    const draft = [...previousTasks]
+    const ids = apply(draft)
+    this.spawnRecurrences(previousTasks, draft)
+
+    this.tasks = this.normalizeOrders(draft)
+    const affected = ids.flatMap((id) => this.tasks.filter((task) => task.id === id))
+    try {
+      await this.persist(describe(affected))
+    } catch (error) {
+      this.tasks = previousTasks
+      this.persisted = previousPersisted
+      throw error
     }
+    return affected
+  }
+
+  private spawnRecurrences(previous: Task[], draft: Task[]) {
+    const timestamp = this.now()
+    const completed = draft.filter((task) => {
+      if (!isDoneStatus(this.workflow, task.status) || !task.recurrence) return false
+      const before = previous.find((item) => item.id === task.id)
+      return before !== undefined && !isDoneStatus(this.workflow, before.status)
+    })
+    const status = initialStatus(this.workflow)
+
+    completed.forEach((task) => {
+      if (!task.recurrence) return
+      const today = localToday()
+      const nextDue = nextOccurrence(task.recurrence, task.dueDate ?? today, today)
+      const seriesId = task.seriesId ?? task.id
+      draft[draft.indexOf(task)] = { ...task, recurrence: null, seriesId }
+      if (!nextDue) return
+      draft.push({
+        ...task,
+        id: crypto.randomUUID(),
+        status,
+        dueDate: nextDue,
+        seriesId,
+        myDayDate: null,
+        checklist: task.checklist.map((item) => ({ ...item, done: false })),
+        order: this.nextOrder(draft, task.listId, status),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+    })
+  }
+
+  private applyUpdate(draft: Task[], update: TaskUpdate, timestamp: string) {
+    const idx = draft.findIndex((t) => t.id === update.id)
+    if (idx === -1) throw new Error('Task not found')
+    const targetStatus = update.status ?? draft[idx].status
+    const targetList = update.listId ?? draft[idx].listId
+    const changesList = targetList !== draft[idx].listId
+    const merged = taskSchema.parse({
+      ...draft[idx],
+      status: targetStatus,
+      order: update.order ?? (changesList ? this.nextOrder(draft, targetList, targetStatus) : draft[idx].order),
+      ...update,
+      updatedAt: timestamp,
+    })
+    draft[idx] = this.shouldAutoComplete(draft[idx], merged) ? { ...merged, status: this.workflow.doneColumnId } : merged
+    return draft[idx]
+  }
+
+  private shouldAutoComplete(previous: Task, next: Task) {
+    if (!next.completeWhenChecklistDone || isDoneStatus(this.workflow, next.status) || next.checklist.length === 0) return false
+    const wasComplete = previous.checklist.length > 0 && previous.checklist.every((item) => item.done)
+    return !wasComplete && next.checklist.every((item) => item.done)
+  }
+
+  private normalizeOrders(tasks: Task[]) {
+    const buckets = new Map<string, Task[]>()
+    const trashed = tasks.filter((task) => task.deletedAt)
 
     for (const task of tasks) {
-      buckets[task.status].push({ ...task, order: task.order ?? 0 })
+      if (task.deletedAt) continue
+      const key = `${task.listId}/${task.status}`
+      buckets.set(key, [...(buckets.get(key) ?? []), { ...task, order: task.order ?? 0 }])
     }
 
     const normalized: Task[] = []
 
-    (Object.keys(buckets) as TaskStatus[]).forEach((status) => {
-      const sorted = buckets[status].sort((a, b) => {
+    buckets.forEach((bucket) => {
+      const sorted = bucket.sort((a, b) => {
         const orderDiff = (a.order ?? 0) - (b.order ?? 0)
         if (orderDiff !== 0) return orderDiff
         return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
       })
 
       sorted.forEach((task, index) => {
-        normalized.push({ ...task, status, order: index })
+        normalized.push({ ...task, order: index })
       })
     })
 
-    return normalized
+    return [...normalized, ...trashed]
   }
 
-  private normalizeStatusOrders(status: TaskStatus) {
-    const ordered = this.tasks
-      .filter((task) => task.status === status)
-      .sort((a, b) => {
-        const orderDiff = (a.order ?? 0) - (b.order ?? 0)
-        if (orderDiff !== 0) return orderDiff
-        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  async getTasks({ includeTrashed = false }: { includeTrashed?: boolean } = {}): Promise<Task[]> {
+    await this.ready
+    return this.tasks.filter((task) => includeTrashed || !task.deletedAt).sort(byBoardPosition(this.workflow))
+  }
+
+  async addTask(input: TaskInput): Promise<Task> {
+    await this.ready
+    const parsed = taskInputSchema.parse(input)
+    const status = resolveStatus(this.workflow, parsed.status)
+    const timestamp = this.now()
+    const [task] = await this.transact((draft) => {
+      const id = crypto.randomUUID()
+      draft.push({
+        id,
+        ...parsed,
+        status,
+        order: parsed.order ?? this.nextOrder(draft, parsed.listId, status),
+        deletedAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
       })
+      return [id]
+    }, ([created]) => messages().history.added(created.title))
+    return task
+  }
 
-    ordered.forEach((task, index) => {
-      const idx = this.tasks.findIndex((t) => t.id === task.id)
-      if (idx !== -1) {
-        this.tasks[idx] = { ...this.tasks[idx], order: index }
-      }
-    })
+  async updateTask(update: TaskUpdate): Promise<Task> {
+    const [task] = await this.batch([update])
+    return task
   }
 
-  async getTasks(): Promise<Task[]> {
-    return [...this.tasks].sort((a, b) => {
-      const statusDiff = statusOrder[a.status] - statusOrder[b.status]
-      if (statusDiff !== 0) return statusDiff
-      if (a.order !== b.order) return (a.order ?? 0) - (b.order ?? 0)
-      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    })
+  async batch(updates: TaskUpdate[], label?: string): Promise<Task[]> {
+    const timestamp = this.now()
+    return this.transact(
+      (draft) => updates.map((update) => this.applyUpdate(draft, update, timestamp).id),
+      (tasks) => label ?? (tasks.length === 1 ? messages().history.updated(tasks[0].title) : messages().history.updatedMany(tasks.length)),
+    )
   }
 
-  async addTask(input: TaskInput): Promise<Task> {
-    const parsed = taskInputSchema.parse(input)
+  async updateTasks(ids: string[], change: BulkChange): Promise<Task[]> {
     const timestamp = this.now()
-    const task: Task = {
-      id: crypto.randomUUID(),
-      ...parsed,
-      order: parsed.order ?? this.nextOrderForStatus(parsed.status),
-      createdAt: timestamp,
-      updatedAt: timestamp,
-    }
-    this.tasks.push(task)
-    this.normalizeStatusOrders(task.status)
-    this.persist()
+    return this.transact(
+      (draft) =>
+        ids.map((id) => {
+          const dueDate = draft.find((task) => task.id === id)?.dueDate
+          const update: TaskUpdate = { id }
+          if (change.status) update.status = change.status
+          if (change.priority) update.priority = change.priority
+          if (change.dueShiftDays && dueDate) update.dueDate = addDays(dueDate, change.dueShiftDays)
+          if (change.myDay !== undefined) update.myDayDate = change.myDay ? localToday() : null
+          return this.applyUpdate(draft, update, timestamp).id
+        }),
+      (tasks) => (tasks.length === 1 ? messages().history.updated(tasks[0].title) : messages().history.updatedMany(tasks.length)),
+    )
+  }
+
+  async moveTask(id: string, toStatus: TaskStatus, toIndex: number): Promise<Task> {
+    const [moved] = await this.moveTasks([id], toStatus, toIndex)
+    return moved
+  }
+
+  async moveTasks(ids: string[], toStatus: TaskStatus, toIndex: number): Promise<Task[]> {
+    const timestamp = this.now()
+    return this.transact(
+      (draft) => {
+        draft.splice(0, draft.length, ...moveTasksInBoard(draft, ids, toStatus, toIndex, timestamp))
+        return ids
+      },
+      (tasks) => (tasks.length === 1 ? messages().history.moved(tasks[0].title) : messages().history.movedMany(tasks.length)),
+    )
+  }
+
+  async skipOccurrence(id: string): Promise<Task> {
+    const timestamp = this.now()
+    const [task] = await this.transact((draft) => {
+      const idx = draft.findIndex((t) => t.id === id)
+      if (idx === -1) throw new Error('Task not found')
+      const current = draft[idx]
+      if (!current.recurrence) throw new Error(messages().errors.notRecurring)
+      const nextDue = nextOccurrence(current.recurrence, current.dueDate ?? localToday())
+      draft[idx] = nextDue
+        ? { ...current, dueDate: nextDue, updatedAt: timestamp }
+        : { ...current, recurrence: null, updatedAt: timestamp }
+      return [id]
+    }, ([skipped]) => messages().history.skipped(skipped.title))
     return task
   }
 
-  async updateTask(update: TaskUpdate): Promise<Task> {
-    const idx = this.tasks.findIndex((t) => t.id === update.id)
-    if (idx === -1) throw new Error('Task not found')
-    const originalStatus = this.tasks[idx].status
-    const targetStatus = update.status ?? this.tasks[idx].status
-    const merged: Task = taskSchema.parse({
-      ...this.tasks[idx],
-      status: targetStatus,
-      order: update.order ?? this.tasks[idx].order ?? this.nextOrderForStatus(targetStatus),
-      ...update,
-      updatedAt: this.now(),
-    })
-    this.tasks[idx] = merged
-    this.normalizeStatusOrders(originalStatus)
-    this.normalizeStatusOrders(merged.status)
-    this.persist()
-    return merged
+  async endSeries(id: string): Promise<Task> {
+    const [task] = await this.batch([{ id, recurrence: null }])
+    return task
   }
 
   async deleteTask(id: string): Promise<void> {
-    const removed = this.tasks.find((task) => task.id === id)
-    this.tasks = this.tasks.filter((task) => task.id !== id)
-    if (removed) {
-      this.normalizeStatusOrders(removed.status)
+    await this.deleteTasks([id])
+  }
+
+  async deleteTasks(ids: string[]): Promise<void> {
+    const timestamp = this.now()
+    await this.transact(
+      (draft) =>
+        ids.filter((id) => {
+          const idx = draft.findIndex((task) => task.id === id && !task.deletedAt)
+          if (idx === -1) return false
+          draft[idx] = { ...draft[idx], deletedAt: timestamp, updatedAt: timestamp }
+          return true
+        }),
+      (removed) =>
+        removed.length === 0
+          ? undefined
+          : removed.length === 1
+            ? messages().history.trashed(removed[0].title)
+            : messages().history.trashedMany(removed.length),
+    )
+  }
+
+  async getActivity(taskId: string): Promise<ActivityEvent[]> {
+    await this.ready
+    return this.activity
+      .all()
+      .filter((event) => event.taskId === taskId)
+      .sort(byTime)
+  }
+
+  async getTrash(): Promise<Task[]> {
+    await this.ready
+    return this.tasks
+      .filter((task) => task.deletedAt)
+      .sort((a, b) => Date.parse(b.deletedAt ?? '') - Date.parse(a.deletedAt ?? ''))
+  }
+
+  async restoreTasks(ids: string[]): Promise<Task[]> {
+    const timestamp = this.now()
+    return this.transact(
+      (draft) =>
+        draft.flatMap((task, idx) => {
+          if (!task.deletedAt || !ids.includes(task.id)) return []
+          const listId = this.lists.find(task.listId) ? task.listId : DEFAULT_LIST_ID
+          draft[idx] = { ...task, listId, deletedAt: null, updatedAt: timestamp }
+          return [task.id]
+        }),
+      (tasks) =>
+        tasks.length === 1
+          ? messages().history.restored(tasks[0].title)
+          : tasks.length
+            ? messages().history.restoredMany(tasks.length)
+            : undefined,
+    )
+  }
+
+  async purgeTasks(ids: string[]): Promise<void> {
+    if (!ids.length) return
+    await this.transact(
+      (draft) => {
+        const kept = draft.filter((task) => !task.deletedAt || !ids.includes(task.id))
+        draft.splice(0, draft.length, ...kept)
+        return []
+      },
+      () => undefined,
+    )
+    await this.discardHistory(ids)
+  }
+
+  private async discardHistory(ids: string[]) {
+    await this.forget(ids)
+    const events = this.activity.all().filter((event) => ids.includes(event.taskId))
+    if (events.length) await this.activity.remove(events.map((event) => event.id))
+  }
+
+  async emptyTrash(): Promise<void> {
+    await this.ready
+    await this.purgeTasks(this.tasks.filter((task) => task.deletedAt).map((task) => task.id))
+  }
+
+  async getTrashRetentionDays(): Promise<number> {
+    await this.ready
+    return this.retentionDays
+  }
+
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await this.ready
+    if (!Number.isInteger(days) || days < 1) throw new Error(messages().errors.retentionDays)
+    this.retentionDays = days
+    await this.storage.setMeta(TRASH_RETENTION_KEY, days)
+    await this.purgeExpired()
+  }
+
+  async getLocale(): Promise<Locale | null> {
+    await this.ready
+    const locale = await this.storage.getMeta<string>(LOCALE_KEY)
+    return isLocale(locale) ? locale : null
+  }
+
+  async setLocale(locale: Locale): Promise<void> {
+    await this.ready
+    await this.storage.setMeta(LOCALE_KEY, locale)
+  }
+
+  async getListView(): Promise<ListView> {
+    await this.ready
+    const view = listViewSchema.safeParse((await this.storage.getMeta(LIST_VIEW_KEY)) ?? {})
+    return view.success ? view.data : DEFAULT_LIST_VIEW
+  }
+
+  async setListView(view: ListView): Promise<void> {
+    await this.ready
+    await this.storage.setMeta(LIST_VIEW_KEY, listViewSchema.parse(view))
+  }
+
+  async getDeliveredReminders(): Promise<string[]> {
+    await this.ready
+    const keys = z.array(z.string()).safeParse(await this.storage.getMeta(REMINDERS_KEY))
+    return keys.success ? keys.data : []
+  }
+
+  async setDeliveredReminders(keys: string[]): Promise<void> {
+    await this.ready
+    await this.storage.setMeta(REMINDERS_KEY, keys)
+  }
+
+  async getSyncEndpoint(): Promise<string | null> {
+    await this.ready
+    return this.syncSettings?.endpoint ?? null
+  }
+
+  async configureSync(endpoint: string | null): Promise<void> {
+    await this.ready
+    this.stopSync()
+    this.syncSettings = endpoint ? syncStateSchema.parse({ endpoint, cursor: 0 }) : null
+    await this.storage.setMeta(SYNC_KEY, this.syncSettings)
+    this.channel.post({ origin: this.tabId, collection: SYNC_CHANNEL, put: this.syncSettings ? [this.syncSettings] : [], remove: [] })
+    if (!this.syncSettings) {
+      await this.outbox.remove(this.outbox.all().map((change) => change.id))
+      return
+    }
+
+    await this.outbox.put(
+      this.tasks.map((task) => {
+        const seed: SyncChange = { id: task.id, fields: diffFields(null, task, task.updatedAt), deletedAt: null, updatedAt: task.updatedAt }
+        const pending = this.outbox.find(task.id)
+        return pending ? mergeChange(seed, pending) : seed
+      }),
+    )
+    this.startSync(this.syncSettings.endpoint)
+  }
+
+  readonly getSyncStatus = (): SyncStatus => this.syncEngine?.getStatus() ?? DISABLED_SYNC_STATUS
+
+  readonly subscribeSync = (listener: () => void) => {
+    this.syncListeners.add(listener)
+    return () => {
+      this.syncListeners.delete(listener)
     }
-    this.persist()
   }
 
-  applyFilters(tasks: Task[], filter: TaskFilter) {
+  async syncNow(): Promise<void> {
+    await this.ready
+    await this.syncEngine?.syncNow()
+  }
+
+  async getWorkflow(): Promise<Workflow> {
+    await this.ready
+    return this.workflow
+  }
+
+  async addColumn(name: string, wipLimit: number | null = null): Promise<WorkflowColumn> {
+    await this.ready
+    const column = workflowColumnSchema.parse({ id: crypto.randomUUID(), name, wipLimit })
+    const doneIndex = this.workflow.columns.findIndex((item) => item.id === this.workflow.doneColumnId)
+    const columns = [...this.workflow.columns]
+    columns.splice(doneIndex === columns.length - 1 ? doneIndex : columns.length, 0, column)
+    await this.saveWorkflow({ ...this.workflow, columns })
+    return column
+  }
+
+  async updateColumn(id: string, input: Partial<Omit<WorkflowColumn, 'id'>>): Promise<WorkflowColumn> {
+    await this.ready
+    const existing = findColumn(this.workflow, id)
+    if (!existing) throw new Error('Column not found')
+    const column = workflowColumnSchema.parse({ ...existing, ...input, id })
+    await this.saveWorkflow({ ...this.workflow, columns: this.workflow.columns.map((item) => (item.id === id ? column : item)) })
+    return column
+  }
+
+  async moveColumn(id: string, toIndex: number): Promise<void> {
+    await this.ready
+    const column = findColumn(this.workflow, id)
+    if (!column) throw new Error('Column not found')
+    const columns = this.workflow.columns.filter((item) => item.id !== id)
+    columns.splice(Math.max(0, Math.min(toIndex, columns.length)), 0, column)
+    await this.saveWorkflow({ ...this.workflow, columns })
+  }
+
+  async setDoneColumn(id: string): Promise<void> {
+    await this.ready
+    if (!findColumn(this.workflow, id)) throw new Error('Column not found')
+    await this.saveWorkflow({ ...this.workflow, doneColumnId: id })
+  }
+
+  async deleteColumn(id: string, targetId: string): Promise<void> {
+    await this.ready
+    const column = findColumn(this.workflow, id)
+    if (!column) throw new Error('Column not found')
+    if (this.workflow.columns.length === 1) throw new Error(messages().errors.lastColumn)
+    if (id === targetId || !findColumn(this.workflow, targetId)) throw new Error(messages().errors.targetColumn)
+
+    const previous = this.workflow
+    await this.saveWorkflow({
+      ...previous,
+      columns: previous.columns.filter((item) => item.id !== id),
+      doneColumnId: previous.doneColumnId === id ? targetId : previous.doneColumnId,
+    })
+    const timestamp = this.now()
+    try {
+      await this.transact(
+        (draft) =>
+          draft.flatMap((task, idx) => {
+            if (task.status !== id) return []
+            draft[idx] = { ...task, status: targetId, order: this.nextOrder(draft, task.listId, targetId), updatedAt: timestamp }
+            return [task.id]
+          }),
+        (tasks) => (tasks.length ? messages().history.columnDeleted(columnName(previous, column.id)) : undefined),
+      )
+    } catch (error) {
+      await this.saveWorkflow(previous)
+      throw error
+    }
+  }
+
+  private async saveWorkflow(next: Omit<Workflow, 'updatedAt'>) {
+    const workflow = workflowSchema.parse({ ...next, updatedAt: this.now() })
+    await this.storage.setMeta(WORKFLOW_KEY, workflow)
+    this.workflow = workflow
+    this.channel.post({ origin: this.tabId, collection: WORKFLOW_CHANNEL, put: [workflow], remove: [] })
+  }
+
+  private async applyRemoteWorkflow(message: ChangeMessage) {
+    await this.ready
+    const parsed = workflowSchema.safeParse(message.put[0])
+    if (!parsed.success || Date.parse(parsed.data.updatedAt) <= Date.parse(this.workflow.updatedAt)) return
+    this.workflow = parsed.data
+    this.notify()
+  }
+
+  async purgeExpired(now = Date.now()): Promise<void> {
+    await this.ready
+    const expired = this.tasks.filter((task) => this.isExpired(task, now)).map((task) => task.id)
+    if (!expired.length) return
+    await this.purgeTasks(expired)
+    this.notify()
+  }
+
+  async importTasks(bundle: ImportBundle, { mode, duplicates }: ImportOptions): Promise<ImportResult> {
+    await this.ready
+    const missingLabels = bundle.labels.filter((label) => !this.labels.find(label.id))
+    if (missingLabels.length) await this.labels.put(missingLabels)
+    const missingLists = bundle.lists.filter((list) => !this.lists.find(list.id))
+    if (missingLists.length) await this.lists.put(missingLists)
+    const missingColumns = bundle.workflow?.columns.filter((column) => !findColumn(this.workflow, column.id)) ?? []
+    if (missingColumns.length) await this.saveWorkflow({ ...this.workflow, columns: [...this.workflow.columns, ...missingColumns] })
+
+    const labelIds = new Set(this.labels.all().map((label) => label.id))
+    const listIds = new Set(this.lists.all().map((list) => list.id))
+    const timestamp = this.now()
+    const result: ImportResult = { added: 0, updated: 0, skipped: 0 }
+
+    await this.transact(
+      (draft) => {
+        if (mode === 'replace') draft.splice(0, draft.length)
+        const rows = previewImport(bundle, draft.filter((task) => !task.deletedAt)).sort(
+          (a, b) => (a.task.input.order ?? Number.MAX_SAFE_INTEGER) - (b.task.input.order ?? Number.MAX_SAFE_INTEGER),
+        )
+        return rows.flatMap(({ task, duplicateOf }) => {
+          const listId = listIds.has(task.input.listId) ? task.input.listId : DEFAULT_LIST_ID
+          const status = resolveStatus(this.workflow, task.input.status)
+          const record: Task = {
+            ...task.input,
+            id: task.id && !draft.some((existing) => existing.id === task.id) ? task.id : crypto.randomUUID(),
+            status,
+            listId,
+            labelIds: task.input.labelIds.filter((id) => labelIds.has(id)),
+            dueDate: task.input.dueDate ?? null,
+            order: this.nextOrder(draft, listId, status),
+            deletedAt: task.deletedAt ?? null,
+            createdAt: task.createdAt ?? timestamp,
+            updatedAt: task.updatedAt ?? timestamp,
+          }
+          const idx = duplicateOf ? draft.indexOf(duplicateOf) : -1
+          if (duplicateOf && (duplicates === 'skip' || idx === -1)) {
+            result.skipped++
+            return []
+          }
+          if (duplicateOf) {
+            const samePlace = duplicateOf.listId === record.listId && duplicateOf.status === record.status
+            draft[idx] = {
+              ...record,
+              id: duplicateOf.id,
+              order: samePlace ? duplicateOf.order : record.order,
+              createdAt: duplicateOf.createdAt,
+              updatedAt: timestamp,
+            }
+            result.updated++
+            return [duplicateOf.id]
+          }
+          draft.push(record)
+          result.added++
+          return [record.id]
+        })
+      },
+      () => (mode === 'replace' ? messages().history.replaced(result.added) : messages().history.imported(result.added + result.updated)),
+    )
+    return result
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0
+  }
+
+  async undo(): Promise<HistoryEntry | undefined> {
+    await this.ready
+    const entry = this.undoStack.pop()
+    if (!entry) return undefined
+    this.restore(entry.changes, 'before')
+    this.redoStack.push(entry)
+    await this.persist()
+    await this.saveHistory()
+    return entry
+  }
+
+  async redo(): Promise<HistoryEntry | undefined> {
+    await this.ready
+    const entry = this.redoStack.pop()
+    if (!entry) return undefined
+    this.restore(entry.changes, 'after')
+    this.undoStack.push(entry)
+    await this.persist()
+    await this.saveHistory()
+    return entry
+  }
+
+  async getQuarantine(): Promise<QuarantineEntry[]> {
+    await this.ready
+    const saved = (await this.storage.load(quarantineCollection.name)) ?? []
+    return saved
+      .flatMap((entry) => {
+        const parsed = quarantineEntrySchema.safeParse(entry)
+        return parsed.success ? [parsed.data] : []
+      })
+      .sort((a, b) => a.quarantinedAt.localeCompare(b.quarantinedAt))
+  }
+
+  async recoverQuarantined(ids?: string[]): Promise<RecoveryResult> {
+    const entries = (await this.getQuarantine()).filter((entry) => !ids || ids.includes(entry.id))
+    const recovered: Task[] = []
+    const failed: QuarantineEntry[] = []
+
+    for (const entry of entries) {
+      const task = entry.collection === taskCollection.name ? salvageTask(entry.payload, entry.schemaVersion, this.now()) : undefined
+      if (!task) {
+        failed.push(entry)
+        continue
+      }
+      const restored = this.tasks.some((t) => t.id === task.id) ? { ...task, id: crypto.randomUUID() } : task
+      this.tasks.push({ ...restored, order: this.nextOrder(this.tasks, restored.listId, restored.status) })
+      recovered.push(restored)
+    }
+
+    if (!recovered.length) return { recovered, failed }
+    this.tasks = this.normalizeOrders(this.tasks)
+    await this.persist()
+    const recoveredIds = entries.filter((entry) => !failed.includes(entry)).map((entry) => entry.id)
+    await this.storage.commit(quarantineCollection.name, { put: [], remove: recoveredIds })
+    return { recovered, failed }
+  }
+
+  async discardQuarantined(ids?: string[]): Promise<void> {
+    const entries = (await this.getQuarantine()).filter((entry) => !ids || ids.includes(entry.id))
+    await this.storage.commit(quarantineCollection.name, { put: [], remove: entries.map((entry) => entry.id) })
+  }
+
+  async getLabels(): Promise<Label[]> {
+    await this.ready
+    return this.labels.all().sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async addLabel(input: LabelInput): Promise<Label> {
+    await this.ready
+    const parsed = labelInputSchema.parse(input)
+    const timestamp = this.now()
+    const label: Label = { id: crypto.randomUUID(), ...parsed, createdAt: timestamp, updatedAt: timestamp }
+    await this.labels.put([label])
+    return label
+  }
+
+  async updateLabel(id: string, input: Partial<LabelInput>): Promise<Label> {
+    await this.ready
+    const existing = this.labels.find(id)
+    if (!existing) throw new Error('Label not found')
+    const label = labelSchema.parse({ ...existing, ...input, updatedAt: this.now() })
+    await this.labels.put([label])
+    return label
+  }
+
+  async deleteLabel(id: string): Promise<void> {
+    const label = this.labels.find(id)
+    const timestamp = this.now()
+    await this.transact(
+      (draft) =>
+        draft.flatMap((task, idx) => {
+          if (!task.labelIds.includes(id)) return []
+          draft[idx] = { ...task, labelIds: task.labelIds.filter((labelId) => labelId !== id), updatedAt: timestamp }
+          return [task.id]
+        }),
+      (tasks) => (tasks.length && label ? messages().history.labelDeleted(label.name) : undefined),
+    )
+    await this.labels.remove([id])
+  }
+
+  async getLists(): Promise<TaskList[]> {
+    await this.ready
+    return this.lists.all().sort((a, b) => {
+      if (a.id === DEFAULT_LIST_ID) return -1
+      if (b.id === DEFAULT_LIST_ID) return 1
+      return a.createdAt.localeCompare(b.createdAt)
+    })
+  }
+
+  async addList(input: TaskListInput): Promise<TaskList> {
+    await this.ready
+    const parsed = taskListInputSchema.parse(input)
+    const timestamp = this.now()
+    const list: TaskList = { id: crypto.randomUUID(), ...parsed, createdAt: timestamp, updatedAt: timestamp }
+    await this.lists.put([list])
+    return list
+  }
+
+  async updateList(id: string, input: Partial<TaskListInput>): Promise<TaskList> {
+    await this.ready
+    const existing = this.lists.find(id)
+    if (!existing) throw new Error('List not found')
+    const list = taskListSchema.parse({ ...existing, ...input, updatedAt: this.now() })
+    await this.lists.put([list])
+    return list
+  }
+
+  async deleteList(id: string): Promise<void> {
+    if (id === DEFAULT_LIST_ID) throw new Error(messages().errors.defaultList)
+    const list = this.lists.find(id)
+    const timestamp = this.now()
+    await this.transact(
+      (draft) =>
+        draft.flatMap((task, idx) => {
+          if (task.listId !== id) return []
+          draft[idx] = {
+            ...task,
+            listId: DEFAULT_LIST_ID,
+            order: this.nextOrder(draft, DEFAULT_LIST_ID, task.status),
+            updatedAt: timestamp,
+          }
+          return [task.id]
+        }),
+      (tasks) => (tasks.length && list ? messages().history.listDeleted(list.name) : undefined),
+    )
+    await this.lists.remove([id])
+  }
+
+  applyFilters(tasks: Task[], filter: TaskFilter, now = new Date(), today = localToday(now)) {
+    const context = { now, today, labels: this.labels.all(), lists: this.lists.all(), workflow: this.workflow }
     return tasks.filter((task) => {
-      if (!filter.includeDone && task.status === 'done') return false
+      if (task.deletedAt && !filter.includeTrashed) return false
+      if (filter.listId && filter.listId !== 'all' && task.listId !== filter.listId) return false
+      if (!filter.includeDone && isDoneStatus(this.workflow, task.status) && !queryTouchesStatus(filter.query)) return false
+      if (filter.query && !evaluateQuery(filter.query, task, context)) return false
+      if (filter.smartList && !matchesSmartList(filter.smartList, task, this.workflow, today)) return false
       if (filter.status && filter.status !== 'all' && task.status !== filter.status) return false
       if (filter.priority && filter.priority !== 'all' && task.priority !== filter.priority) return false
+      if (filter.labelIds?.length) {
+        const matches = filter.labelMode === 'all'
+          ? filter.labelIds.every((id) => task.labelIds.includes(id))
+          : filter.labelIds.some((id) => task.labelIds.includes(id))
+        if (!matches) return false
+      }
       if (filter.dueBefore) {
         if (!task.dueDate) return false
-        return new Date(task.dueDate).getTime() <= new Date(filter.dueBefore).getTime()
+        return localDate(task.dueDate) <= filter.dueBefore
       }
       return true
     })
@@ -196,4 +1211,16 @@ class TanStackDatabase {
 
 export const db = new TanStackDatabase()
 
-export type { Task, TaskInput, TaskStatus, TaskPriority } from './schema'
+export { arrangeTasks, byBoardPosition, compareTasks, dueBucket, groupTasks, moveTaskInBoard, moveTasksInBoard, type DueBucket, type TaskGroup } from './ordering'
+export { QuerySyntaxError, evaluateQuery, isOverdue, parseQuery } from './query'
+export type { TaskQuery } from './query'
+export { ImportFormatError, detectFormat, exportCsv, exportIcs, exportJson, parseImport, previewImport } from './transfer'
+export type { ImportBundle, ImportMode, ImportOptions, ImportPreviewRow, TransferFormat } from './transfer'
+export { addDays, describeRecurrence, localDate, localToday, nextOccurrence } from './recurrence'
+export { isInMyDay, isSmartList, SMART_LISTS, smartListCounts, type SmartListId } from './smartLists'
+export { createHttpTransport, SyncHttpError, type SyncState, type SyncStatus, type SyncTransport } from './sync'
+export { ReminderScheduler, collectReminders, describeReminder, reminderAt, systemClock, type Clock, type DeliveryLog, type ScheduledReminder } from './reminders'
+export { DEFAULT_LIST_ID, DEFAULT_LIST_VIEW } from './schema'
+export { checkWip, columnIndex, columnLabel, columnName, DEFAULT_WORKFLOW, initialStatus, isDoneStatus, type WipCheck } from './workflow'
+export type { ActivityEvent, ActivityEventType, ChecklistItem, GroupBy, HistoryEntry, Label, LabelInput, ListView, QuarantineEntry, Recurrence, Reminder, ReminderUnit, SortKey, Task, TaskInput, TaskList, TaskListInput, TaskStatus, TaskPriority, WipMode, Workflow, WorkflowColumn } from './schema'
+export type { StorageAdapter, StorageKind } from './storage'
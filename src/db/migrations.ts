@@ -0,0 +1,132 @@
+import { messages } from '../i18n'
+import { DEFAULT_LIST_ID, taskSchema, type Task } from './schema'
+
+type StoredRecord = Record<string, unknown>
+
+type Migration = {
+  version: number
+  description: string
+  up: (record: StoredRecord) => StoredRecord
+}
+
+export class MigrationError extends Error {
+  readonly version: number
+
+  constructor(version: number, message: string) {
+    super(`v${version}: ${message}`)
+    this.name = 'MigrationError'
+    this.version = version
+  }
+}
+
+export const taskMigrations: Migration[] = [
+  {
+    version: 1,
+    description: '空の期限を null に、並び順を整数に正規化',
+    up: (record) => ({
+      ...record,
+      dueDate: typeof record.dueDate === 'string' && record.dueDate.trim() ? record.dueDate : null,
+      order: typeof record.order === 'number' && Number.isFinite(record.order) ? Math.max(0, Math.trunc(record.order)) : 0,
+    }),
+  },
+  {
+    version: 2,
+    description: 'チェックリストを追加',
+    up: (record) => ({
+      ...record,
+      checklist: Array.isArray(record.checklist) ? record.checklist : [],
+      completeWhenChecklistDone: record.completeWhenChecklistDone === true,
+    }),
+  },
+  {
+    version: 3,
+    description: 'ラベルを追加',
+    up: (record) => ({
+      ...record,
+      labelIds: Array.isArray(record.labelIds) ? record.labelIds.filter((id) => typeof id === 'string') : [],
+    }),
+  },
+  {
+    version: 4,
+    description: 'タスクをリストに所属させる',
+    up: (record) => ({
+      ...record,
+      listId: typeof record.listId === 'string' && record.listId ? record.listId : DEFAULT_LIST_ID,
+    }),
+  },
+  {
+    version: 5,
+    description: '繰り返し設定を追加',
+    up: (record) => ({
+      ...record,
+      recurrence: record.recurrence ?? null,
+      seriesId: typeof record.seriesId === 'string' ? record.seriesId : null,
+    }),
+  },
+  {
+    version: 6,
+    description: 'ゴミ箱（論理削除）を追加',
+    up: (record) => ({
+      ...record,
+      deletedAt: typeof record.deletedAt === 'string' ? record.deletedAt : null,
+    }),
+  },
+  {
+    version: 7,
+    description: 'リマインダーを追加',
+    up: (record) => ({
+      ...record,
+      reminder: record.reminder ?? null,
+    }),
+  },
+  {
+    version: 8,
+    description: '「今日」リストへの手動追加を記録',
+    up: (record) => ({
+      ...record,
+      myDayDate: typeof record.myDayDate === 'string' ? record.myDayDate : null,
+    }),
+  },
+]
+
+export const TASK_SCHEMA_VERSION = taskMigrations.reduce((latest, migration) => Math.max(latest, migration.version), 0)
+
+export function migrateRecord(record: unknown, fromVersion: number, migrations: Migration[] = taskMigrations): unknown {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new MigrationError(fromVersion, messages().errors.notObject)
+  }
+
+  return migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce<StoredRecord>((current, migration) => migration.up(current), record as StoredRecord)
+}
+
+function tryMigrate(record: unknown, fromVersion: number) {
+  try {
+    return migrateRecord(record, fromVersion)
+  } catch {
+    return undefined
+  }
+}
+
+export function salvageTask(payload: unknown, fromVersion: number, timestamp: string): Task | undefined {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return undefined
+
+  const record = (tryMigrate(payload, fromVersion) ?? payload) as StoredRecord
+
+  const kept = Object.entries(taskSchema.shape).flatMap(([key, field]) => {
+    if (record[key] === undefined) return []
+    const parsed = field.safeParse(record[key])
+    return parsed.success ? [[key, parsed.data] as const] : []
+  })
+
+  const parsed = taskSchema.safeParse({
+    id: crypto.randomUUID(),
+    title: messages().errors.recoveredTitle,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...Object.fromEntries(kept),
+  })
+  return parsed.success ? parsed.data : undefined
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_TIMESTAMP, task } from '../test/fixtures'
+import { moveTaskInBoard, moveTasksInBoard } from './ordering'
+import type { Task } from './schema'
+
+const moved = '2024-06-02T00:00:00.000Z'
+
+const card = (id: string, status: string, order: number, listId = 'inbox') => task({ id, title: id, status, order, listId })
+
+function column(tasks: Task[], status: string, listId = 'inbox') {
+  return tasks
+    .filter((item) => item.listId === listId && item.status === status)
+    .sort((a, b) => a.order - b.order)
+    .map((item) => item.id)
+}
+
+describe('moveTaskInBoard', () => {
+  const board = [card('a', 'todo', 0), card('b', 'todo', 1), card('c', 'todo', 2), card('d', 'done', 0)]
+
+  it('reorders within a column', () => {
+    const next = moveTaskInBoard(board, 'a', 'todo', 2, moved)
+    expect(column(next, 'todo')).toEqual(['b', 'c', 'a'])
+    expect(next.find((item) => item.id === 'a')?.updatedAt).toBe(moved)
+    expect(next.find((item) => item.id === 'b')?.updatedAt).toBe(FIXTURE_TIMESTAMP)
+  })
+
+  it('moves across columns and closes the gap it leaves', () => {
+    const next = moveTaskInBoard(board, 'b', 'done', 0, moved)
+    expect(column(next, 'todo')).toEqual(['a', 'c'])
+    expect(column(next, 'done')).toEqual(['b', 'd'])
+    expect(next.filter((item) => item.status === 'todo').map((item) => item.order)).toEqual([0, 1])
+  })
+
+  it('clamps the target index to the column', () => {
+    expect(column(moveTaskInBoard(board, 'a', 'done', 99, moved), 'done')).toEqual(['d', 'a'])
+    expect(column(moveTaskInBoard(board, 'c', 'todo', -5, moved), 'todo')).toEqual(['c', 'a', 'b'])
+  })
+
+  it('returns the same task objects when nothing changes', () => {
+    const next = moveTaskInBoard(board, 'b', 'todo', 1, moved)
+    next.forEach((item, index) => expect(item).toBe(board[index]))
+  })
+
+  it('leaves other lists and trashed tasks alone', () => {
+    const trashed = { ...card('x', 'todo', 0), deletedAt: FIXTURE_TIMESTAMP }
+    const tasks = [...board, card('w1', 'todo', 0, 'work'), card('w2', 'done', 0, 'work'), trashed]
+    const next = moveTaskInBoard(tasks, 'a', 'done', 0, moved)
+    expect(column(next, 'todo', 'work')).toEqual(['w1'])
+    expect(column(next, 'done', 'work')).toEqual(['w2'])
+    expect(next.find((item) => item.id === 'x')).toBe(trashed)
+  })
+
+  it('throws for an unknown task', () => {
+    expect(() => moveTaskInBoard(board, 'missing', 'todo', 0, moved)).toThrow('Task not found')
+  })
+})
+
+describe('moveTasksInBoard', () => {
+  it('keeps the moved tasks together in the given order', () => {
+    const board = [card('a', 'todo', 0), card('b', 'todo', 1), card('c', 'in-progress', 0), card('d', 'done', 0)]
+    const next = moveTasksInBoard(board, ['c', 'a'], 'done', 0, moved)
+    expect(column(next, 'done')).toEqual(['c', 'a', 'd'])
+    expect(column(next, 'todo')).toEqual(['b'])
+    expect(column(next, 'in-progress')).toEqual([])
+  })
+
+  it('appends tasks from other lists to the end of their own column', () => {
+    const board = [card('a', 'todo', 0), card('b', 'done', 0), card('w1', 'todo', 0, 'work'), card('w2', 'done', 0, 'work')]
+    const next = moveTasksInBoard(board, ['a', 'w1'], 'done', 0, moved)
+    expect(column(next, 'done')).toEqual(['a', 'b'])
+    expect(column(next, 'done', 'work')).toEqual(['w2', 'w1'])
+  })
+
+  it('returns the input when there is nothing to move', () => {
+    const board = [card('a', 'todo', 0)]
+    expect(moveTasksInBoard(board, [], 'done', 0, moved)).toBe(board)
+  })
+})
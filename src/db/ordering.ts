@@ -0,0 +1,125 @@
+import { addDays, localDate } from './recurrence'
+import type { GroupBy, ListView, Task, TaskPriority, TaskStatus, Workflow } from './schema'
+import { columnIndex } from './workflow'
+
+export type DueBucket = 'overdue' | 'today' | 'week' | 'later' | 'none'
+
+export type TaskGroup = {
+  key: string
+  tasks: Task[]
+  collapsed: boolean
+}
+
+const priorityRank: Record<TaskPriority, number> = { low: 0, medium: 1, high: 2 }
+const priorityGroups: TaskPriority[] = ['high', 'medium', 'low']
+const dueBuckets: DueBucket[] = ['overdue', 'today', 'week', 'later', 'none']
+
+export function byOrder(a: Task, b: Task) {
+  return a.order - b.order
+}
+
+export function byBoardPosition(workflow: Workflow) {
+  return (a: Task, b: Task) => {
+    const statusDiff = columnIndex(workflow, a.status) - columnIndex(workflow, b.status)
+    if (statusDiff !== 0) return statusDiff
+    if (a.order !== b.order) return (a.order ?? 0) - (b.order ?? 0)
+    return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  }
+}
+
+export function compareTasks(workflow: Workflow, { sort, direction }: Pick<ListView, 'sort' | 'direction'>) {
+  const byPosition = byBoardPosition(workflow)
+  const sign = direction === 'asc' ? 1 : -1
+  const compare = (a: Task, b: Task): number => {
+    switch (sort) {
+      case 'manual':
+        return byPosition(a, b)
+      case 'priority':
+        return priorityRank[a.priority] - priorityRank[b.priority]
+      case 'title':
+        return a.title.localeCompare(b.title)
+      case 'createdAt':
+      case 'updatedAt':
+        return a[sort].localeCompare(b[sort])
+      case 'dueDate':
+        return (a.dueDate ?? '').localeCompare(b.dueDate ?? '')
+    }
+  }
+
+  return (a: Task, b: Task) => {
+    if (sort === 'dueDate' && !a.dueDate !== !b.dueDate) return a.dueDate ? -1 : 1
+    return sign * compare(a, b) || byPosition(a, b)
+  }
+}
+
+export function dueBucket(dueDate: string | null | undefined, today: string): DueBucket {
+  if (!dueDate) return 'none'
+  const day = localDate(dueDate)
+  if (day < today) return 'overdue'
+  if (day === today) return 'today'
+  const weekday = new Date(`${today}T00:00:00`).getDay()
+  return day <= addDays(today, (7 - weekday) % 7) ? 'week' : 'later'
+}
+
+export function groupTasks(tasks: Task[], groupBy: GroupBy, workflow: Workflow, today: string, collapsed: string[] = []): TaskGroup[] {
+  const keyOf = (task: Task): string =>
+    groupBy === 'status' ? task.status : groupBy === 'priority' ? task.priority : groupBy === 'due' ? dueBucket(task.dueDate, today) : 'all'
+  const keys =
+    groupBy === 'status'
+      ? workflow.columns.map((column) => column.id)
+      : groupBy === 'priority'
+        ? priorityGroups
+        : groupBy === 'due'
+          ? dueBuckets
+          : ['all']
+  return keys
+    .map((key) => ({
+      key,
+      tasks: tasks.filter((task) => keyOf(task) === key),
+      collapsed: groupBy !== 'none' && collapsed.includes(`${groupBy}:${key}`),
+    }))
+    .filter((group) => group.tasks.length > 0)
+}
+
+export function arrangeTasks(tasks: Task[], view: ListView, workflow: Workflow, today: string) {
+  return groupTasks([...tasks].sort(compareTasks(workflow, view)), view.groupBy, workflow, today, view.collapsed)
+}
+
+export function moveTaskInBoard(tasks: Task[], id: string, toStatus: TaskStatus, toIndex: number, timestamp: string): Task[] {
+  return moveTasksInBoard(tasks, [id], toStatus, toIndex, timestamp)
+}
+
+export function moveTasksInBoard(tasks: Task[], ids: string[], toStatus: TaskStatus, toIndex: number, timestamp: string): Task[] {
+  const moving = ids.map((id) => {
+    const task = tasks.find((item) => item.id === id)
+    if (!task) throw new Error('Task not found')
+    return task
+  })
+  if (moving.length === 0) return tasks
+
+  const movingIds = new Set(ids)
+  const orders = new Map<string, number>()
+  new Set(moving.map((task) => task.listId)).forEach((listId) => {
+    const inList = (task: Task) => !task.deletedAt && task.listId === listId && !movingIds.has(task.id)
+    const group = moving.filter((task) => task.listId === listId)
+    const target = tasks.filter((task) => inList(task) && task.status === toStatus).sort(byOrder)
+    const position = listId === moving[0].listId ? Math.max(0, Math.min(toIndex, target.length)) : target.length
+    target.splice(position, 0, ...group)
+    target.forEach((task, order) => orders.set(task.id, order))
+    new Set(group.map((task) => task.status)).forEach((status) => {
+      if (status === toStatus) return
+      tasks
+        .filter((task) => inList(task) && task.status === status)
+        .sort(byOrder)
+        .forEach((task, order) => orders.set(task.id, order))
+    })
+  })
+
+  return tasks.map((task) => {
+    const order = orders.get(task.id)
+    if (order === undefined) return task
+    if (movingIds.has(task.id))
+      return task.status === toStatus && task.order === order ? task : { ...task, status: toStatus, order, updatedAt: timestamp }
+    return task.order === order ? task : { ...task, order }
+  })
+}
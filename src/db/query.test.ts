@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { task as fixture } from '../test/fixtures'
+import { evaluateQuery, parseQuery, QuerySyntaxError } from './query'
+import { labelSchema, type Task } from './schema'
+
+const timestamp = '2024-06-10T09:00:00.000Z'
+const now = new Date(2024, 5, 15, 12)
+const labels = [labelSchema.parse({ id: 'l1', name: 'Work', color: '#ff0000', createdAt: timestamp, updatedAt: timestamp })]
+
+const task = (input: Partial<Task> = {}) => fixture({ title: 'Write report', createdAt: timestamp, updatedAt: timestamp, ...input })
+
+function matches(source: string, target: Task) {
+  return evaluateQuery(parseQuery(source), target, { now, labels })
+}
+
+function syntaxError(source: string) {
+  try {
+    parseQuery(source)
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error
+    throw error
+  }
+  throw new Error(`Expected "${source}" to fail`)
+}
+
+describe('parseQuery', () => {
+  it('parses free text, keys, quotes and negation', () => {
+    expect(parseQuery('report -label:"Deep work" p:high,低').clauses).toEqual([
+      { negated: false, term: { type: 'text', value: 'report' } },
+      { negated: true, term: { type: 'label', names: ['Deep work'] } },
+      { negated: false, term: { type: 'priority', values: ['high', 'low'] } },
+    ])
+  })
+
+  it('parses date comparisons, ranges and relative dates', () => {
+    expect(parseQuery('due:<=2024-06-20 created:-1w..today').clauses.map(({ term }) => term)).toEqual([
+      { type: 'date', field: 'due', operator: '<=', value: { kind: 'date', date: '2024-06-20' } },
+      { type: 'dateRange', field: 'created', from: { kind: 'relative', days: -7 }, to: { kind: 'relative', days: 0 } },
+    ])
+  })
+
+  it('treats no: as a negated has:', () => {
+    expect(parseQuery('no:due').clauses).toEqual([{ negated: true, term: { type: 'has', field: 'due' } }])
+  })
+
+  it('reports the position of syntax errors', () => {
+    expect(syntaxError('open "unclosed')).toMatchObject({ position: 5, length: 9 })
+    expect(syntaxError('x due:2024-02-30')).toMatchObject({ position: 2, length: 14 })
+    expect(syntaxError('color:red')).toMatchObject({ position: 0, length: 6 })
+    expect(syntaxError('p:urgent')).toBeInstanceOf(QuerySyntaxError)
+    expect(syntaxError('has:owner')).toBeInstanceOf(QuerySyntaxError)
+    expect(syntaxError('status:')).toBeInstanceOf(QuerySyntaxError)
+  })
+})
+
+describe('evaluateQuery', () => {
+  it('matches text in the title and description', () => {
+    expect(matches('REPORT', task())).toBe(true)
+    expect(matches('budget', task({ description: 'Q3 budget' }))).toBe(true)
+    expect(matches('-report', task())).toBe(false)
+  })
+
+  it('matches status, priority and labels', () => {
+    const target = task({ status: 'in-progress', priority: 'high', labelIds: ['l1'] })
+    expect(matches('status:doing p:high label:work is:open', target)).toBe(true)
+    expect(matches('is:closed', target)).toBe(false)
+    expect(matches('label:home', target)).toBe(false)
+  })
+
+  it('resolves relative due dates against the local day', () => {
+    expect(matches('due:today', task({ dueDate: '2024-06-15' }))).toBe(true)
+    expect(matches('due:<tomorrow', task({ dueDate: '2024-06-15' }))).toBe(true)
+    expect(matches('due:today..1w', task({ dueDate: '2024-06-22' }))).toBe(true)
+    expect(matches('due:today..1w', task({ dueDate: '2024-06-23' }))).toBe(false)
+    expect(matches('due:today', task())).toBe(false)
+  })
+
+  it('reads relative created and updated dates as days ago', () => {
+    expect(matches('created:<7d', task())).toBe(true)
+    expect(matches('created:>3d', task())).toBe(true)
+  })
+
+  it('flags overdue tasks that are not done', () => {
+    expect(matches('is:overdue', task({ dueDate: '2024-06-14' }))).toBe(true)
+    expect(matches('is:overdue', task({ dueDate: '2024-06-14', status: 'done' }))).toBe(false)
+    expect(matches('has:due -is:overdue', task({ dueDate: '2024-06-15' }))).toBe(true)
+  })
+})
@@ -0,0 +1,344 @@
+import { messages } from '../i18n'
+import { addDays, localDate, localToday } from './recurrence'
+import type { Label, Task, TaskList, TaskPriority, Workflow } from './schema'
+import { DEFAULT_WORKFLOW, isDoneStatus } from './workflow'
+
+export type DateField = 'due' | 'updated' | 'created'
+export type DateOperator = '<' | '<=' | '>' | '>=' | '='
+export type DateValue = { kind: 'date'; date: string } | { kind: 'relative'; days: number }
+export type PresenceField = 'due' | 'description' | 'checklist' | 'labels' | 'recurrence'
+
+export type QueryTerm =
+  | { type: 'text'; value: string }
+  | { type: 'open' }
+  | { type: 'closed' }
+  | { type: 'status'; values: string[] }
+  | { type: 'priority'; values: TaskPriority[] }
+  | { type: 'label'; names: string[] }
+  | { type: 'list'; names: string[] }
+  | { type: 'date'; field: DateField; operator: DateOperator; value: DateValue }
+  | { type: 'dateRange'; field: DateField; from: DateValue; to: DateValue }
+  | { type: 'has'; field: PresenceField }
+  | { type: 'overdue' }
+
+export type QueryClause = {
+  negated: boolean
+  term: QueryTerm
+}
+
+export type TaskQuery = {
+  source: string
+  clauses: QueryClause[]
+}
+
+export type QueryContext = {
+  now?: Date
+  today?: string
+  labels?: Label[]
+  lists?: TaskList[]
+  workflow?: Workflow
+}
+
+export class QuerySyntaxError extends Error {
+  readonly position: number
+  readonly length: number
+
+  constructor(message: string, position: number, length = 1) {
+    super(message)
+    this.name = 'QuerySyntaxError'
+    this.position = position
+    this.length = Math.max(1, length)
+  }
+}
+
+type Token = {
+  negated: boolean
+  key?: string
+  value: string
+  quoted: boolean
+  start: number
+  end: number
+}
+
+const presenceFields: PresenceField[] = ['due', 'description', 'checklist', 'labels', 'recurrence']
+const dateFields: Record<string, DateField> = { due: 'due', updated: 'updated', created: 'created' }
+const priorityAliases: Record<string, TaskPriority> = { high: 'high', medium: 'medium', low: 'low', 高: 'high', 中: 'medium', 低: 'low' }
+const statusAliases: Record<string, string> = {
+  progress: 'in-progress',
+  doing: 'in-progress',
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++
+      continue
+    }
+    const start = index
+    let negated = false
+    if (input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      negated = true
+      index++
+    }
+
+    let key: string | undefined
+    let value = ''
+    let quoted = false
+    while (index < input.length && !/\s/.test(input[index])) {
+      const char = input[index]
+      if (char === '"') {
+        const close = input.indexOf('"', index + 1)
+        if (close === -1) throw new QuerySyntaxError(messages().query.unclosedQuote, index, input.length - index)
+        value += input.slice(index + 1, close)
+        quoted = true
+        index = close + 1
+        continue
+      }
+      if (char === ':' && key === undefined && !quoted && value) {
+        key = value.toLowerCase()
+        value = ''
+        index++
+        continue
+      }
+      value += char
+      index++
+    }
+
+    if (key !== undefined && !value && !quoted) {
+      throw new QuerySyntaxError(messages().query.missingValue(key), start, index - start)
+    }
+    if (key === undefined && !value && !quoted) {
+      throw new QuerySyntaxError(messages().query.emptyTerm, start, index - start)
+    }
+    tokens.push({ negated, key, value, quoted, start, end: index })
+  }
+  return tokens
+}
+
+function isValidDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const [year, month, day] = value.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+function parseDateValue(raw: string, token: Token): DateValue {
+  const keyword = raw.toLowerCase()
+  if (keyword === 'today') return { kind: 'relative', days: 0 }
+  if (keyword === 'tomorrow') return { kind: 'relative', days: 1 }
+  if (keyword === 'yesterday') return { kind: 'relative', days: -1 }
+  const relative = /^([+-]?\d+)([dw])$/i.exec(raw)
+  if (relative) {
+    const amount = Number(relative[1])
+    return { kind: 'relative', days: relative[2].toLowerCase() === 'w' ? amount * 7 : amount }
+  }
+  if (isValidDate(raw)) return { kind: 'date', date: raw }
+  throw new QuerySyntaxError(
+    messages().query.invalidDate(raw),
+    token.start,
+    token.end - token.start,
+  )
+}
+
+function parseList<T extends string>(token: Token, aliases: Record<string, T>, label: string): T[] {
+  return token.value.split(',').map((raw) => {
+    const value = aliases[raw.toLowerCase()]
+    if (!value) {
+      const allowed = Array.from(new Set(Object.keys(aliases).filter((alias) => /^[a-z-]+$/.test(alias)))).join(', ')
+      throw new QuerySyntaxError(messages().query.unknownValue(label, raw, allowed), token.start, token.end - token.start)
+    }
+    return value
+  })
+}
+
+function parseDateTerm(field: DateField, token: Token): QueryTerm {
+  const range = token.value.split('..')
+  if (range.length === 2) {
+    return { type: 'dateRange', field, from: parseDateValue(range[0], token), to: parseDateValue(range[1], token) }
+  }
+  const match = /^(<=|>=|<|>|=)?(.*)$/.exec(token.value)
+  const operator = (match?.[1] ?? '=') as DateOperator
+  return { type: 'date', field, operator, value: parseDateValue(match?.[2] ?? '', token) }
+}
+
+function parseTerm(token: Token): QueryTerm {
+  if (token.key === undefined) return { type: 'text', value: token.value }
+
+  switch (token.key) {
+    case 'is': {
+      const value = token.value.toLowerCase()
+      if (value === 'open') return { type: 'open' }
+      if (value === 'closed' || value === 'done') return { type: 'closed' }
+      if (value === 'overdue') return { type: 'overdue' }
+      if (value === 'recurring') return { type: 'has', field: 'recurrence' }
+      return { type: 'status', values: [token.value] }
+    }
+    case 'status':
+      return { type: 'status', values: token.value.split(',') }
+    case 'priority':
+    case 'p':
+      return { type: 'priority', values: parseList(token, priorityAliases, messages().query.priority) }
+    case 'label':
+      return { type: 'label', names: token.value.split(',') }
+    case 'list':
+      return { type: 'list', names: token.value.split(',') }
+    case 'has':
+    case 'no': {
+      const field = token.value.toLowerCase() as PresenceField
+      if (!presenceFields.includes(field)) {
+        throw new QuerySyntaxError(
+          messages().query.unknownPresence(`${token.key}:${token.value}`, presenceFields.join(', ')),
+          token.start,
+          token.end - token.start,
+        )
+      }
+      return { type: 'has', field }
+    }
+    default:
+      if (dateFields[token.key]) return parseDateTerm(dateFields[token.key], token)
+      throw new QuerySyntaxError(
+        messages().query.unknownKey(token.key, 'is, status, priority, label, list, due, updated, created, has, no'),
+        token.start,
+        token.key.length + 1,
+      )
+  }
+}
+
+export function parseQuery(source: string): TaskQuery {
+  const clauses = tokenize(source).map((token) => ({
+    negated: token.key === 'no' ? !token.negated : token.negated,
+    term: parseTerm(token),
+  }))
+  return { source, clauses }
+}
+
+export function queryTouchesStatus(query: TaskQuery | undefined) {
+  return Boolean(query?.clauses.some(({ term }) => term.type === 'status' || term.type === 'open' || term.type === 'closed'))
+}
+
+export function isOverdue(task: Task, today: string, workflow: Workflow = DEFAULT_WORKFLOW) {
+  return !isDoneStatus(workflow, task.status) && Boolean(task.dueDate) && localDate(task.dueDate!) < today
+}
+
+function matchesStatus(values: string[], task: Task, workflow: Workflow) {
+  const column = workflow.columns.find((item) => item.id === task.status)
+  return values.some((value) => {
+    const needle = value.toLowerCase()
+    return (
+      task.status.toLowerCase() === needle ||
+      statusAliases[needle] === task.status ||
+      column?.name.toLowerCase() === needle
+    )
+  })
+}
+
+function resolveDate(field: DateField, value: DateValue, today: string) {
+  if (value.kind === 'date') return value.date
+  return addDays(today, field === 'due' ? value.days : -value.days)
+}
+
+function flip(operator: DateOperator): DateOperator {
+  switch (operator) {
+    case '<':
+      return '>'
+    case '<=':
+      return '>='
+    case '>':
+      return '<'
+    case '>=':
+      return '<='
+    default:
+      return operator
+  }
+}
+
+function compare(left: string, operator: DateOperator, right: string) {
+  switch (operator) {
+    case '<':
+      return left < right
+    case '<=':
+      return left <= right
+    case '>':
+      return left > right
+    case '>=':
+      return left >= right
+    default:
+      return left === right
+  }
+}
+
+function taskDate(task: Task, field: DateField) {
+  if (field === 'due') return task.dueDate ? localDate(task.dueDate) : null
+  return localToday(new Date(field === 'updated' ? task.updatedAt : task.createdAt))
+}
+
+function matchesName(names: string[], candidates: { id: string; name: string }[], selected: string[]) {
+  return names.some((name) => {
+    const needle = name.toLowerCase()
+    return candidates.some((candidate) => selected.includes(candidate.id) && candidate.name.toLowerCase() === needle)
+  })
+}
+
+function matchesTerm(term: QueryTerm, task: Task, context: Required<QueryContext>, today: string) {
+  switch (term.type) {
+    case 'text': {
+      const needle = term.value.toLowerCase()
+      return task.title.toLowerCase().includes(needle) || (task.description ?? '').toLowerCase().includes(needle)
+    }
+    case 'open':
+      return !isDoneStatus(context.workflow, task.status)
+    case 'closed':
+      return isDoneStatus(context.workflow, task.status)
+    case 'status':
+      return matchesStatus(term.values, task, context.workflow)
+    case 'priority':
+      return term.values.includes(task.priority)
+    case 'label':
+      return matchesName(term.names, context.labels, task.labelIds)
+    case 'list':
+      return matchesName(term.names, context.lists, [task.listId])
+    case 'date': {
+      const date = taskDate(task, term.field)
+      if (!date) return false
+      const operator = term.value.kind === 'relative' && term.field !== 'due' ? flip(term.operator) : term.operator
+      return compare(date, operator, resolveDate(term.field, term.value, today))
+    }
+    case 'dateRange': {
+      const date = taskDate(task, term.field)
+      if (!date) return false
+      const bounds = [resolveDate(term.field, term.from, today), resolveDate(term.field, term.to, today)].sort()
+      return date >= bounds[0] && date <= bounds[1]
+    }
+    case 'has':
+      switch (term.field) {
+        case 'due':
+          return Boolean(task.dueDate)
+        case 'description':
+          return Boolean(task.description?.trim())
+        case 'checklist':
+          return task.checklist.length > 0
+        case 'labels':
+          return task.labelIds.length > 0
+        case 'recurrence':
+          return task.recurrence !== null
+      }
+      return false
+    case 'overdue':
+      return isOverdue(task, today, context.workflow)
+  }
+}
+
+export function evaluateQuery(query: TaskQuery, task: Task, context: QueryContext = {}) {
+  const now = context.now ?? new Date()
+  const resolved = {
+    now,
+    today: context.today ?? localToday(now),
+    labels: context.labels ?? [],
+    lists: context.lists ?? [],
+    workflow: context.workflow ?? DEFAULT_WORKFLOW,
+  }
+  return query.clauses.every(({ negated, term }) => matchesTerm(term, task, resolved, resolved.today) !== negated)
+}
@@ -0,0 +1,133 @@
+import { messages } from '../i18n'
+import type { Recurrence } from './schema'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+function parseDate(value: string) {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function formatDate(time: number) {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+export function localToday(now: Date = new Date()) {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+export function localDate(value: string) {
+  return value.includes('T') ? localToday(new Date(value)) : value.slice(0, 10)
+}
+
+export function addDays(date: string, days: number) {
+  return `${formatDate(parseDate(date) + days * DAY_MS)}${date.slice(10)}`
+}
+
+function advance(recurrence: Recurrence, from: number): number {
+  switch (recurrence.type) {
+    case 'daily':
+      return from + recurrence.interval * DAY_MS
+    case 'weekly': {
+      const weekdays = recurrence.weekdays.length ? recurrence.weekdays : [new Date(from).getUTCDay()]
+      const weekStart = from - new Date(from).getUTCDay() * DAY_MS
+      for (let offset = 1; offset <= 7 * recurrence.interval + 7; offset++) {
+        const candidate = from + offset * DAY_MS
+        const weeksApart = Math.floor((candidate - weekStart) / (7 * DAY_MS))
+        if (weeksApart % recurrence.interval === 0 && weekdays.includes(new Date(candidate).getUTCDay())) return candidate
+      }
+      return from + 7 * recurrence.interval * DAY_MS
+    }
+    case 'monthly': {
+      const date = new Date(from)
+      const year = date.getUTCFullYear()
+      const month = date.getUTCMonth()
+      const sameMonth = Date.UTC(year, month, Math.min(recurrence.dayOfMonth, daysInMonth(year, month)))
+      if (sameMonth > from) return sameMonth
+      const target = new Date(Date.UTC(year, month + recurrence.interval, 1))
+      const targetYear = target.getUTCFullYear()
+      const targetMonth = target.getUTCMonth()
+      return Date.UTC(targetYear, targetMonth, Math.min(recurrence.dayOfMonth, daysInMonth(targetYear, targetMonth)))
+    }
+  }
+}
+
+export function nextOccurrence(recurrence: Recurrence, from: string, notBefore?: string): string | null {
+  const floor = notBefore ? parseDate(notBefore) : -Infinity
+  let next = advance(recurrence, parseDate(from))
+  while (next < floor) next = advance(recurrence, next)
+  if (recurrence.until && next > parseDate(recurrence.until)) return null
+  return formatDate(next)
+}
+
+export function describeRecurrence(recurrence: Recurrence) {
+  const { recurrence: t } = messages()
+  const until = recurrence.until ? t.describe.until(recurrence.until) : ''
+  switch (recurrence.type) {
+    case 'daily':
+      return `${t.describe.daily(recurrence.interval)}${until}`
+    case 'weekly': {
+      const days = recurrence.weekdays.map((day) => t.weekdays[day])
+      return `${t.describe.weekly(recurrence.interval)}${days.length ? t.describe.weekdays(days) : ''}${until}`
+    }
+    case 'monthly':
+      return `${t.describe.monthly(recurrence.interval, recurrence.dayOfMonth)}${until}`
+  }
+}
+
+export function toRRule(recurrence: Recurrence) {
+  const parts = [`INTERVAL=${recurrence.interval}`]
+  switch (recurrence.type) {
+    case 'daily':
+      parts.unshift('FREQ=DAILY')
+      break
+    case 'weekly':
+      parts.unshift('FREQ=WEEKLY')
+      if (recurrence.weekdays.length) parts.push(`BYDAY=${recurrence.weekdays.map((day) => RRULE_DAYS[day]).join(',')}`)
+      break
+    case 'monthly':
+      parts.unshift('FREQ=MONTHLY')
+      parts.push(`BYMONTHDAY=${recurrence.dayOfMonth}`)
+      break
+  }
+  if (recurrence.until) parts.push(`UNTIL=${recurrence.until.replaceAll('-', '')}`)
+  return parts.join(';')
+}
+
+export function fromRRule(rule: string): Recurrence | null {
+  const fields = new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.split('=') as [string, string])
+      .map(([key, value]) => [key.toUpperCase(), value ?? ''] as const),
+  )
+  const interval = Math.max(1, Number(fields.get('INTERVAL') ?? 1) || 1)
+  const untilRaw = fields.get('UNTIL')
+  const until = untilRaw ? `${untilRaw.slice(0, 4)}-${untilRaw.slice(4, 6)}-${untilRaw.slice(6, 8)}` : null
+
+  switch (fields.get('FREQ')?.toUpperCase()) {
+    case 'DAILY':
+      return { type: 'daily', interval, until }
+    case 'WEEKLY': {
+      const weekdays = (fields.get('BYDAY') ?? '')
+        .split(',')
+        .map((day) => RRULE_DAYS.indexOf(day.slice(-2).toUpperCase() as (typeof RRULE_DAYS)[number]))
+        .filter((day) => day !== -1)
+      return { type: 'weekly', interval, weekdays, until }
+    }
+    case 'MONTHLY': {
+      const dayOfMonth = Number(fields.get('BYMONTHDAY'))
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) return null
+      return { type: 'monthly', interval, dayOfMonth, until }
+    }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { fakeClock, task as fixture } from '../test/fixtures'
+import { reminderAt, ReminderScheduler, type DeliveryLog } from './reminders'
+import type { Task } from './schema'
+import { DEFAULT_WORKFLOW } from './workflow'
+
+const HOUR_MS = 60 * 60 * 1000
+
+function memoryLog(keys: string[] = []) {
+  const log: DeliveryLog & { keys: string[] } = {
+    keys,
+    load: async () => log.keys,
+    save: async (next) => {
+      log.keys = next
+    },
+  }
+  return log
+}
+
+const task = (input: Partial<Task> = {}) =>
+  fixture({ dueDate: '2024-06-15', reminder: { amount: 0, unit: 'minutes', time: '09:00' }, ...input })
+
+function collect(scheduler: ReminderScheduler) {
+  const fired: string[] = []
+  scheduler.subscribe((reminder) => fired.push(reminder.task.id))
+  return fired
+}
+
+describe('reminderAt', () => {
+  it('counts back from the local due time', () => {
+    const due = new Date(2024, 5, 15, 9).getTime()
+    expect(reminderAt('2024-06-15', { amount: 0, unit: 'minutes', time: '09:00' })).toBe(due)
+    expect(reminderAt('2024-06-15', { amount: 2, unit: 'hours', time: '09:00' })).toBe(due - 2 * HOUR_MS)
+    expect(reminderAt('2024-06-15', { amount: 1, unit: 'days', time: '09:00' })).toBe(new Date(2024, 5, 14, 9).getTime())
+    expect(reminderAt(null, { amount: 0, unit: 'minutes', time: '09:00' })).toBeNull()
+  })
+})
+
+describe('ReminderScheduler', () => {
+  const due = new Date(2024, 5, 15, 9).getTime()
+
+  it('fires when the clock reaches the reminder', async () => {
+    const { clock, advance } = fakeClock(due - HOUR_MS)
+    const scheduler = new ReminderScheduler(clock)
+    const fired = collect(scheduler)
+    await scheduler.sync([task()], DEFAULT_WORKFLOW)
+    advance(HOUR_MS - 1)
+    expect(fired).toEqual([])
+    advance(1)
+    expect(fired).toEqual(['t1'])
+  })
+
+  it('reschedules and cancels when tasks change', async () => {
+    const { clock, advance, pending } = fakeClock(due - HOUR_MS)
+    const scheduler = new ReminderScheduler(clock)
+    const fired = collect(scheduler)
+    await scheduler.sync([task()], DEFAULT_WORKFLOW)
+    await scheduler.sync([task({ dueDate: '2024-06-16' })], DEFAULT_WORKFLOW)
+    expect(pending()).toBe(1)
+    advance(HOUR_MS)
+    expect(fired).toEqual([])
+    await scheduler.sync([task({ dueDate: '2024-06-16', status: 'done' })], DEFAULT_WORKFLOW)
+    expect(pending()).toBe(0)
+  })
+
+  it('delivers reminders missed while closed once on the first sync', async () => {
+    const log = memoryLog()
+    const first = fakeClock(due + HOUR_MS)
+    const scheduler = new ReminderScheduler(first.clock, log)
+    const fired = collect(scheduler)
+    await scheduler.sync([task(), task({ id: 't2', dueDate: '2024-06-20' })], DEFAULT_WORKFLOW)
+    first.advance(0)
+    expect(fired).toEqual(['t1'])
+    expect(log.keys).toEqual([`t1@${due}`])
+
+    await scheduler.sync([task()], DEFAULT_WORKFLOW)
+    first.advance(0)
+    expect(fired).toEqual(['t1'])
+
+    const reloaded = fakeClock(due + 2 * HOUR_MS)
+    const next = new ReminderScheduler(reloaded.clock, log)
+    const refired = collect(next)
+    await next.sync([task()], DEFAULT_WORKFLOW)
+    reloaded.advance(0)
+    expect(refired).toEqual([])
+  })
+
+  it('does not deliver past reminders that appear after the first sync', async () => {
+    const { clock, advance } = fakeClock(due + HOUR_MS)
+    const scheduler = new ReminderScheduler(clock)
+    const fired = collect(scheduler)
+    await scheduler.sync([], DEFAULT_WORKFLOW)
+    await scheduler.sync([task()], DEFAULT_WORKFLOW)
+    advance(0)
+    expect(fired).toEqual([])
+  })
+})
@@ -0,0 +1,146 @@
+import { messages } from '../i18n'
+import type { Reminder, Task, Workflow } from './schema'
+import { isDoneStatus } from './workflow'
+
+const MINUTE_MS = 60 * 1000
+const MAX_DELAY = 2 ** 31 - 1
+
+export type Clock = {
+  now: () => number
+  setTimeout: (callback: () => void, delay: number) => unknown
+  clearTimeout: (handle: unknown) => void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => globalThis.setTimeout(callback, delay),
+  clearTimeout: (handle) => globalThis.clearTimeout(handle as ReturnType<typeof globalThis.setTimeout>),
+}
+
+export type DeliveryLog = {
+  load: () => Promise<string[]>
+  save: (keys: string[]) => Promise<void>
+}
+
+const memoryLog: DeliveryLog = {
+  load: async () => [],
+  save: async () => undefined,
+}
+
+export type ScheduledReminder = {
+  key: string
+  task: Task
+  at: number
+}
+
+export function dueInstant(dueDate: string, time: string) {
+  if (dueDate.includes('T')) return new Date(dueDate).getTime()
+  const [year, month, day] = dueDate.slice(0, 10).split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  return new Date(year, month - 1, day, hours, minutes).getTime()
+}
+
+export function reminderAt(dueDate: string | null | undefined, reminder: Reminder | null): number | null {
+  if (!reminder || !dueDate) return null
+  const { amount, unit, time } = reminder
+  const due = dueInstant(dueDate, time)
+  if (Number.isNaN(due)) return null
+  if (unit === 'days') {
+    const date = new Date(due)
+    date.setDate(date.getDate() - amount)
+    return date.getTime()
+  }
+  return due - amount * (unit === 'hours' ? 60 : 1) * MINUTE_MS
+}
+
+export function describeReminder(reminder: Reminder) {
+  const t = messages().reminder
+  return reminder.amount === 0 ? t.describeAtDue(reminder.time) : t.describeBefore(reminder.amount, reminder.unit)
+}
+
+export function collectReminders(tasks: Task[], workflow: Workflow): ScheduledReminder[] {
+  return tasks.flatMap((task) => {
+    if (task.deletedAt || isDoneStatus(workflow, task.status)) return []
+    const at = reminderAt(task.dueDate, task.reminder)
+    return at === null ? [] : [{ key: `${task.id}@${at}`, task, at }]
+  })
+}
+
+export class ReminderScheduler {
+  private readonly timers = new Map<string, { reminder: ScheduledReminder; handle: unknown }>()
+  private readonly delivered = new Set<string>()
+  private readonly listeners = new Set<(reminder: ScheduledReminder) => void>()
+  private readonly clock: Clock
+  private readonly log: DeliveryLog
+  private readonly loaded: Promise<void>
+  private known = new Set<string>()
+  private synced = false
+
+  constructor(clock: Clock = systemClock, log: DeliveryLog = memoryLog) {
+    this.clock = clock
+    this.log = log
+    this.loaded = log
+      .load()
+      .then((keys) => keys.forEach((key) => this.delivered.add(key)))
+      .catch(() => undefined)
+  }
+
+  subscribe(listener: (reminder: ScheduledReminder) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async sync(tasks: Task[], workflow: Workflow) {
+    await this.loaded
+    const now = this.clock.now()
+    const reminders = collectReminders(tasks, workflow)
+    const catchUp = !this.synced
+    this.synced = true
+    this.known = new Set(reminders.map((reminder) => reminder.key))
+    const upcoming = reminders.filter(
+      (reminder) => (catchUp || reminder.at > now || this.timers.has(reminder.key)) && !this.delivered.has(reminder.key),
+    )
+    const keys = new Set(upcoming.map((reminder) => reminder.key))
+
+    this.timers.forEach((timer, key) => {
+      if (keys.has(key)) return
+      this.clock.clearTimeout(timer.handle)
+      this.timers.delete(key)
+    })
+    upcoming.forEach((reminder) => {
+      const timer = this.timers.get(reminder.key)
+      if (timer) timer.reminder = reminder
+      else this.arm(reminder)
+    })
+  }
+
+  scheduled() {
+    return Array.from(this.timers.values(), (timer) => timer.reminder).sort((a, b) => a.at - b.at)
+  }
+
+  dispose() {
+    this.timers.forEach((timer) => this.clock.clearTimeout(timer.handle))
+    this.timers.clear()
+  }
+
+  private arm(reminder: ScheduledReminder) {
+    const delay = Math.min(Math.max(0, reminder.at - this.clock.now()), MAX_DELAY)
+    const handle = this.clock.setTimeout(() => this.fire(reminder.key), delay)
+    this.timers.set(reminder.key, { reminder, handle })
+  }
+
+  private fire(key: string) {
+    const timer = this.timers.get(key)
+    if (!timer) return
+    this.timers.delete(key)
+    if (timer.reminder.at > this.clock.now()) {
+      this.arm(timer.reminder)
+      return
+    }
+    this.delivered.add(key)
+    void this.log.save(Array.from(this.delivered).filter((delivered) => this.known.has(delivered))).catch(() => undefined)
+    this.listeners.forEach((listener) => listener(timer.reminder))
+  }
+}
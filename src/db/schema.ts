@@ -1,19 +1,124 @@
 import { z } from 'zod'
+import { messages } from '../i18n'
 
-export const taskStatusSchema = z.enum(['todo', 'in-progress', 'done'])
+export const taskStatusSchema = z.string().min(1, { error: () => messages().validation.statusRequired })
 export type TaskStatus = z.infer<typeof taskStatusSchema>
 
 export const taskPrioritySchema = z.enum(['low', 'medium', 'high'])
 export type TaskPriority = z.infer<typeof taskPrioritySchema>
 
+export const checklistItemSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1, { error: () => messages().validation.itemRequired }),
+  done: z.boolean().default(false),
+})
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>
+
+export const labelSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, { error: () => messages().validation.labelNameRequired }),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { error: () => messages().validation.color }),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export type Label = z.infer<typeof labelSchema>
+
+export const labelInputSchema = labelSchema.pick({ name: true, color: true })
+
+export type LabelInput = z.input<typeof labelInputSchema>
+
+export const wipModeSchema = z.enum(['warn', 'block'])
+export type WipMode = z.infer<typeof wipModeSchema>
+
+export const workflowColumnSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, { error: () => messages().validation.columnNameRequired }),
+  wipLimit: z.number().int().positive().nullable().default(null),
+  wipMode: wipModeSchema.default('warn'),
+})
+
+export type WorkflowColumn = z.infer<typeof workflowColumnSchema>
+
+export const workflowSchema = z
+  .object({
+    columns: z.array(workflowColumnSchema).min(1, { error: () => messages().validation.columnsRequired }),
+    doneColumnId: z.string(),
+    updatedAt: z.string(),
+  })
+  .refine((workflow) => workflow.columns.some((column) => column.id === workflow.doneColumnId), {
+    error: () => messages().validation.doneColumnMissing,
+    path: ['doneColumnId'],
+  })
+  .refine((workflow) => new Set(workflow.columns.map((column) => column.id)).size === workflow.columns.length, {
+    error: () => messages().validation.duplicateColumnIds,
+    path: ['columns'],
+  })
+
+export type Workflow = z.infer<typeof workflowSchema>
+
+const recurrenceBase = {
+  interval: z.number().int().min(1).default(1),
+  until: z.string().nullable().optional(),
+}
+
+export const recurrenceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('daily'), ...recurrenceBase }),
+  z.object({ type: z.literal('weekly'), ...recurrenceBase, weekdays: z.array(z.number().int().min(0).max(6)).default([]) }),
+  z.object({ type: z.literal('monthly'), ...recurrenceBase, dayOfMonth: z.number().int().min(1).max(31) }),
+])
+
+export type Recurrence = z.infer<typeof recurrenceSchema>
+
+export const reminderUnitSchema = z.enum(['minutes', 'hours', 'days'])
+export type ReminderUnit = z.infer<typeof reminderUnitSchema>
+
+export const reminderSchema = z.object({
+  amount: z.number().int().nonnegative().default(0),
+  unit: reminderUnitSchema.default('minutes'),
+  time: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { error: () => messages().validation.time })
+    .default('09:00'),
+})
+
+export type Reminder = z.infer<typeof reminderSchema>
+
+export const DEFAULT_LIST_ID = 'inbox'
+
+export const taskListSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, { error: () => messages().validation.listNameRequired }),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { error: () => messages().validation.color }),
+  icon: z.string().max(4).default('📋'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export type TaskList = z.infer<typeof taskListSchema>
+
+export const taskListInputSchema = taskListSchema.pick({ name: true, color: true, icon: true })
+
+export type TaskListInput = z.input<typeof taskListInputSchema>
+
 export const taskSchema = z.object({
   id: z.string(),
-  title: z.string().min(1, 'タイトルは必須です'),
+  title: z.string().min(1, { error: () => messages().validation.titleRequired }),
   description: z.string().optional().default(''),
   status: taskStatusSchema.default('todo'),
   priority: taskPrioritySchema.default('medium'),
+  listId: z.string().default(DEFAULT_LIST_ID),
   dueDate: z.string().nullable().optional(),
   order: z.number().int().nonnegative().default(0),
+  checklist: z.array(checklistItemSchema).default([]),
+  labelIds: z.array(z.string()).default([]),
+  recurrence: recurrenceSchema.nullable().default(null),
+  seriesId: z.string().nullable().default(null),
+  reminder: reminderSchema.nullable().default(null),
+  completeWhenChecklistDone: z.boolean().default(false),
+  myDayDate: z.string().nullable().default(null),
+  deletedAt: z.string().nullable().default(null),
   createdAt: z.string(),
   updatedAt: z.string(),
 })
@@ -21,12 +126,92 @@ export const taskSchema = z.object({
 export type Task = z.infer<typeof taskSchema>
 
 export const taskInputSchema = taskSchema
-  .omit({ id: true, createdAt: true, updatedAt: true })
+  .omit({ id: true, deletedAt: true, createdAt: true, updatedAt: true })
   .extend({
     dueDate: z.string().nullable().optional(),
     order: z.number().int().nonnegative().optional(),
   })
 
-export type TaskInput = z.infer<typeof taskInputSchema>
+export type TaskInput = z.input<typeof taskInputSchema>
 
 export type TaskUpdate = Partial<Omit<Task, 'id' | 'createdAt'>> & { id: string }
+
+export const listViewSchema = z.object({
+  sort: z.enum(['manual', 'dueDate', 'priority', 'createdAt', 'updatedAt', 'title']).default('manual'),
+  direction: z.enum(['asc', 'desc']).default('asc'),
+  groupBy: z.enum(['none', 'status', 'priority', 'due']).default('none'),
+  collapsed: z.array(z.string()).default([]),
+})
+
+export type ListView = z.infer<typeof listViewSchema>
+
+export const DEFAULT_LIST_VIEW: ListView = listViewSchema.parse({})
+export type SortKey = ListView['sort']
+export type GroupBy = ListView['groupBy']
+
+export const quarantineEntrySchema = z.object({
+  id: z.string(),
+  collection: z.string(),
+  payload: z.unknown(),
+  reason: z.string(),
+  schemaVersion: z.number().int().nonnegative(),
+  quarantinedAt: z.string(),
+})
+
+export type QuarantineEntry = z.infer<typeof quarantineEntrySchema>
+
+export const taskChangeSchema = z.object({
+  id: z.string(),
+  before: taskSchema.nullable(),
+  after: taskSchema.nullable(),
+})
+
+export type TaskChange = z.infer<typeof taskChangeSchema>
+
+export const historyEntrySchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  at: z.string(),
+  changes: z.array(taskChangeSchema),
+})
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>
+
+export const historyStateSchema = z.object({
+  undo: z.array(historyEntrySchema),
+  redo: z.array(historyEntrySchema),
+})
+
+const activityBase = {
+  id: z.string(),
+  taskId: z.string(),
+  at: z.string(),
+}
+
+export const activityEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created'), ...activityBase, title: z.string() }),
+  z.object({ type: z.literal('status'), ...activityBase, from: taskStatusSchema, to: taskStatusSchema }),
+  z.object({ type: z.literal('priority'), ...activityBase, from: taskPrioritySchema, to: taskPrioritySchema }),
+  z.object({ type: z.literal('dueDate'), ...activityBase, from: z.string().nullable(), to: z.string().nullable() }),
+  z.object({
+    type: z.literal('reordered'),
+    ...activityBase,
+    status: taskStatusSchema,
+    from: z.number().int().nonnegative(),
+    to: z.number().int().nonnegative(),
+  }),
+  z.object({ type: z.literal('deleted'), ...activityBase }),
+  z.object({ type: z.literal('restored'), ...activityBase }),
+])
+
+export type ActivityEvent = z.infer<typeof activityEventSchema>
+export type ActivityEventType = ActivityEvent['type']
+
+export const syncChangeSchema = z.object({
+  id: z.string(),
+  fields: z.record(z.string(), z.object({ value: z.unknown(), at: z.string() })),
+  deletedAt: z.string().nullable().default(null),
+  updatedAt: z.string(),
+})
+
+export type SyncChange = z.infer<typeof syncChangeSchema>
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { noopChannel as channel } from '../test/fixtures'
+import { TanStackDatabase } from './database'
+import { SMART_LISTS, smartListCounts } from './smartLists'
+import { createMemoryStorage } from './storage'
+import { DEFAULT_WORKFLOW } from './workflow'
+
+describe('smart lists', () => {
+  it('show as many tasks as the sidebar counts, even with done tasks included', async () => {
+    const database = new TanStackDatabase({ storage: createMemoryStorage(), channel })
+    const now = new Date(2024, 5, 15, 12)
+    await database.addTask({ title: 'today', dueDate: '2024-06-15', priority: 'high' })
+    await database.addTask({ title: 'done today', dueDate: '2024-06-15', priority: 'high', status: 'done' })
+    await database.addTask({ title: 'late', dueDate: '2024-06-10' })
+    await database.addTask({ title: 'done late', dueDate: '2024-06-10', status: 'done' })
+    await database.addTask({ title: 'next week', dueDate: '2024-06-21' })
+    await database.addTask({ title: 'picked', myDayDate: '2024-06-15', status: 'done' })
+    const tasks = await database.getTasks()
+
+    const counts = smartListCounts(tasks, DEFAULT_WORKFLOW, '2024-06-15')
+    expect(counts).toEqual({ myDay: 1, overdue: 1, upcoming: 2, planned: 3, important: 1 })
+    SMART_LISTS.forEach((smartList) => {
+      expect(database.applyFilters(tasks, { smartList, includeDone: true }, now)).toHaveLength(counts[smartList])
+    })
+  })
+})
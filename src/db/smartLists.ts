@@ -0,0 +1,46 @@
+import { isOverdue } from './query'
+import { addDays, localDate } from './recurrence'
+import type { Task, Workflow } from './schema'
+import { isDoneStatus } from './workflow'
+
+export const SMART_LISTS = ['myDay', 'overdue', 'upcoming', 'planned', 'important'] as const
+
+export type SmartListId = (typeof SMART_LISTS)[number]
+
+const UPCOMING_DAYS = 7
+
+export function isSmartList(value: unknown): value is SmartListId {
+  return SMART_LISTS.includes(value as SmartListId)
+}
+
+export function isInMyDay(task: Task, today: string) {
+  return task.myDayDate === today || (task.dueDate ? localDate(task.dueDate) === today : false)
+}
+
+export function matchesSmartList(id: SmartListId, task: Task, workflow: Workflow, today: string) {
+  if (isDoneStatus(workflow, task.status)) return false
+  const due = task.dueDate ? localDate(task.dueDate) : null
+  switch (id) {
+    case 'myDay':
+      return isInMyDay(task, today)
+    case 'overdue':
+      return isOverdue(task, today, workflow)
+    case 'upcoming':
+      return due !== null && due >= today && due < addDays(today, UPCOMING_DAYS)
+    case 'planned':
+      return due !== null
+    case 'important':
+      return task.priority === 'high'
+  }
+}
+
+export function smartListCounts(tasks: Task[], workflow: Workflow, today: string) {
+  const counts = Object.fromEntries(SMART_LISTS.map((id) => [id, 0])) as Record<SmartListId, number>
+  tasks.forEach((task) => {
+    if (task.deletedAt) return
+    SMART_LISTS.forEach((id) => {
+      if (matchesSmartList(id, task, workflow, today)) counts[id] += 1
+    })
+  })
+  return counts
+}
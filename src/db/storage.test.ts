@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { memoryStorage, sharedChannel } from '../test/fixtures'
+import { TanStackDatabase } from './database'
+import { createLocalStorage } from './storage'
+
+describe('createLocalStorage', () => {
+  it('keeps records written by another adapter on the same storage', async () => {
+    const storage = memoryStorage()
+    const tabA = createLocalStorage(storage)
+    const tabB = createLocalStorage(storage)
+    await tabA.commit('tasks', { put: [{ id: 'a1' }], remove: [] })
+    expect(await tabB.load('tasks')).toEqual([{ id: 'a1' }])
+
+    await tabA.commit('tasks', { put: [{ id: 'a2' }], remove: [] })
+    await tabB.commit('tasks', { put: [{ id: 'b1' }], remove: ['a1'] })
+    expect(await createLocalStorage(storage).load('tasks')).toEqual([{ id: 'a2' }, { id: 'b1' }])
+  })
+
+  it('keeps tasks added in two tabs after a reload', async () => {
+    const storage = memoryStorage()
+    const channel = sharedChannel()
+    const tabA = new TanStackDatabase({ storage: createLocalStorage(storage), channel })
+    const tabB = new TanStackDatabase({ storage: createLocalStorage(storage), channel })
+    await Promise.all([tabA.ready, tabB.ready])
+
+    await tabA.addTask({ title: 'from A' })
+    await tabB.addTask({ title: 'from B' })
+    await tabA.addTask({ title: 'from A2' })
+    await tabB.addTask({ title: 'from B2' })
+
+    const reloaded = new TanStackDatabase({ storage: createLocalStorage(storage), channel: sharedChannel() })
+    expect((await reloaded.getTasks()).map((task) => task.title).sort()).toEqual(['from A', 'from A2', 'from B', 'from B2'])
+  })
+})
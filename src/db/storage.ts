@@ -0,0 +1,233 @@
+const KEY_PREFIX = 'tanstack-todo'
+const IDB_NAME = 'tanstack-todo'
+const IDB_VERSION = 1
+const RECORD_STORE = 'records'
+const META_STORE = 'meta'
+
+export type StorageKind = 'indexeddb' | 'localstorage' | 'memory'
+
+export type StoredRecord = { id: string }
+
+export type RecordChanges = {
+  put: StoredRecord[]
+  remove: string[]
+}
+
+export interface StorageAdapter {
+  readonly kind: StorageKind
+  load(collection: string): Promise<unknown[] | null>
+  commit(collection: string, changes: RecordChanges): Promise<void>
+  clear(collection: string): Promise<void>
+  getMeta<T>(key: string): Promise<T | undefined>
+  setMeta(key: string, value: unknown): Promise<void>
+}
+
+export class CorruptedStorageError extends Error {
+  readonly collection: string
+  readonly raw: string
+
+  constructor(collection: string, raw: string, cause?: unknown) {
+    super(`Stored data for "${collection}" is not valid JSON`, { cause })
+    this.name = 'CorruptedStorageError'
+    this.collection = collection
+    this.raw = raw
+  }
+}
+
+type IndexedEntry = {
+  collection: string
+  id: string
+  value: unknown
+}
+
+function storageKey(collection: string) {
+  return `${KEY_PREFIX}/${collection}`
+}
+
+export function recordId(record: unknown, index: number) {
+  if (record && typeof record === 'object' && 'id' in record && typeof record.id === 'string') return record.id
+  return `legacy-${index}`
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'))
+  })
+}
+
+export function createMemoryStorage(): StorageAdapter {
+  const collections = new Map<string, Map<string, unknown>>()
+  const meta = new Map<string, unknown>()
+
+  return {
+    kind: 'memory',
+    async load(collection) {
+      const records = collections.get(collection)
+      return records ? Array.from(records.values()) : null
+    },
+    async commit(collection, changes) {
+      const records = collections.get(collection) ?? new Map<string, unknown>()
+      changes.remove.forEach((id) => records.delete(id))
+      changes.put.forEach((record) => records.set(record.id, structuredClone(record)))
+      collections.set(collection, records)
+    },
+    async clear(collection) {
+      collections.delete(collection)
+    },
+    async getMeta<T>(key: string) {
+      return meta.get(key) as T | undefined
+    },
+    async setMeta(key, value) {
+      meta.set(key, structuredClone(value))
+    },
+  }
+}
+
+export function createLocalStorage(storage: Storage = localStorage): StorageAdapter {
+  const read = (collection: string) => {
+    const saved = storage.getItem(storageKey(collection))
+    const records = new Map<string, unknown>()
+    if (saved) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(saved)
+      } catch (error) {
+        throw new CorruptedStorageError(collection, saved, error)
+      }
+      if (Array.isArray(parsed)) parsed.forEach((record, index) => records.set(recordId(record, index), record))
+    }
+    return records
+  }
+
+  return {
+    kind: 'localstorage',
+    async load(collection) {
+      if (storage.getItem(storageKey(collection)) === null) return null
+      return Array.from(read(collection).values())
+    },
+    async commit(collection, changes) {
+      const records = read(collection)
+      changes.remove.forEach((id) => records.delete(id))
+      changes.put.forEach((record) => records.set(record.id, record))
+      storage.setItem(storageKey(collection), JSON.stringify(Array.from(records.values())))
+    },
+    async clear(collection) {
+      storage.removeItem(storageKey(collection))
+    },
+    async getMeta<T>(key: string) {
+      const saved = storage.getItem(storageKey(`meta/${key}`))
+      if (saved === null) return undefined
+      try {
+        return JSON.parse(saved) as T
+      } catch {
+        return undefined
+      }
+    },
+    async setMeta(key, value) {
+      storage.setItem(storageKey(`meta/${key}`), JSON.stringify(value))
+    },
+  }
+}
+
+type IndexedDbOptions = {
+  factory?: IDBFactory
+  legacy?: StorageAdapter
+}
+
+export function createIndexedDbStorage({ factory = indexedDB, legacy }: IndexedDbOptions = {}): StorageAdapter {
+  let connection: Promise<IDBDatabase> | undefined
+
+  const open = () => {
+    connection ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = factory.open(IDB_NAME, IDB_VERSION)
+      req.onupgradeneeded = () => {
+        const database = req.result
+        if (!database.objectStoreNames.contains(RECORD_STORE)) {
+          const store = database.createObjectStore(RECORD_STORE, { keyPath: ['collection', 'id'] })
+          store.createIndex('collection', 'collection')
+        }
+        if (!database.objectStoreNames.contains(META_STORE)) {
+          database.createObjectStore(META_STORE)
+        }
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    return connection
+  }
+
+  const readEntries = async (database: IDBDatabase, collection: string) => {
+    const tx = database.transaction(RECORD_STORE, 'readonly')
+    const entries = await request<IndexedEntry[]>(tx.objectStore(RECORD_STORE).index('collection').getAll(collection))
+    return entries.map((entry) => entry.value)
+  }
+
+  const migrateLegacy = async (database: IDBDatabase, collection: string) => {
+    const markerKey = `migrated:${collection}`
+    const marker = await request(database.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(markerKey))
+    if (marker || !legacy) return
+
+    const records = await legacy.load(collection)
+    const tx = database.transaction([RECORD_STORE, META_STORE], 'readwrite')
+    const store = tx.objectStore(RECORD_STORE)
+    records?.forEach((value, index) => {
+      store.put({ collection, id: recordId(value, index), value } satisfies IndexedEntry)
+    })
+    tx.objectStore(META_STORE).put(new Date().toISOString(), markerKey)
+    await transactionDone(tx)
+    if (records) await legacy.clear(collection)
+  }
+
+  return {
+    kind: 'indexeddb',
+    async load(collection) {
+      const database = await open()
+      await migrateLegacy(database, collection)
+      const records = await readEntries(database, collection)
+      return records.length ? records : null
+    },
+    async commit(collection, changes) {
+      if (!changes.put.length && !changes.remove.length) return
+      const database = await open()
+      const tx = database.transaction(RECORD_STORE, 'readwrite')
+      const store = tx.objectStore(RECORD_STORE)
+      changes.remove.forEach((id) => store.delete([collection, id]))
+      changes.put.forEach((record) => store.put({ collection, id: record.id, value: record } satisfies IndexedEntry))
+      await transactionDone(tx)
+    },
+    async clear(collection) {
+      const database = await open()
+      const tx = database.transaction(RECORD_STORE, 'readwrite')
+      const store = tx.objectStore(RECORD_STORE)
+      const keys = await request(store.index('collection').getAllKeys(collection))
+      keys.forEach((key) => store.delete(key))
+      await transactionDone(tx)
+      await legacy?.clear(collection)
+    },
+    async getMeta<T>(key: string) {
+      const database = await open()
+      return request<T | undefined>(database.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key))
+    },
+    async setMeta(key, value) {
+      const database = await open()
+      const tx = database.transaction(META_STORE, 'readwrite')
+      tx.objectStore(META_STORE).put(value, key)
+      await transactionDone(tx)
+    },
+  }
+}
+
+export function createDefaultStorage(): StorageAdapter {
+  const legacy = typeof localStorage !== 'undefined' ? createLocalStorage(localStorage) : undefined
+  if (typeof indexedDB !== 'undefined') return createIndexedDbStorage({ factory: indexedDB, legacy })
+  return legacy ?? createMemoryStorage()
+}
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createSyncServer, type SyncServer } from '../../server/sync-server.mjs'
+import { fakeClock, noopChannel as channel, task } from '../test/fixtures'
+import { TanStackDatabase } from './database'
+import type { SyncChange } from './schema'
+import { createMemoryStorage } from './storage'
+import {
+  createHttpTransport,
+  diffFields,
+  mergeChange,
+  mergeRemote,
+  SyncEngine,
+  SyncHttpError,
+  type PullResponse,
+  type SyncTarget,
+  type SyncTransport,
+} from './sync'
+
+const T1 = '2024-06-02T00:00:00.000Z'
+const T2 = '2024-06-03T00:00:00.000Z'
+const T3 = '2024-06-04T00:00:00.000Z'
+const START = Date.parse(T1)
+
+const flush = () => new Promise((resolve) => setTimeout(resolve))
+
+const change = (input: Partial<SyncChange> = {}): SyncChange => ({ id: 't1', fields: {}, deletedAt: null, updatedAt: T1, ...input })
+
+function fakeTarget(pending: SyncChange[] = []) {
+  const pulled: PullResponse[] = []
+  let cursor = 0
+  const target: SyncTarget = {
+    pendingChanges: () => pending,
+    acknowledge: async (sent) => {
+      pending = pending.filter((item) => !sent.includes(item))
+    },
+    applyPulled: async (response) => {
+      pulled.push(response)
+      cursor = response.cursor
+    },
+    cursor: () => cursor,
+  }
+  return { target, pulled }
+}
+
+function fakeTransport() {
+  const pushed: SyncChange[][] = []
+  const failures: Error[] = []
+  const transport: SyncTransport = {
+    push: async (changes) => {
+      const failure = failures.shift()
+      if (failure) throw failure
+      pushed.push(changes)
+      return { cursor: pushed.length }
+    },
+    pull: async () => ({ cursor: pushed.length, records: [], removed: [] }),
+  }
+  return { transport, pushed, failures }
+}
+
+describe('diffFields', () => {
+  it('sends every field for a new task and only the changed ones after that', () => {
+    const before = task()
+    expect(Object.keys(diffFields(null, before, T1))).toEqual(Object.keys(before))
+    expect(diffFields(before, { ...before, title: 'Renamed', labelIds: [] }, T2)).toEqual({ title: { value: 'Renamed', at: T2 } })
+  })
+})
+
+describe('mergeChange', () => {
+  it('keeps the latest value of each field and any pending delete', () => {
+    const first = change({ fields: { title: { value: 'A', at: T1 }, priority: { value: 'high', at: T1 } }, deletedAt: T1 })
+    const next = change({ fields: { title: { value: 'B', at: T2 } }, updatedAt: T2 })
+    expect(mergeChange(undefined, next)).toBe(next)
+    expect(mergeChange(first, next)).toEqual({
+      id: 't1',
+      fields: { title: { value: 'B', at: T2 }, priority: { value: 'high', at: T1 } },
+      deletedAt: T1,
+      updatedAt: T2,
+    })
+  })
+})
+
+describe('mergeRemote', () => {
+  const remote = task({ title: 'Remote', priority: 'high' })
+  const local = task({ title: 'Local', priority: 'low' })
+
+  it('takes the remote task when nothing is pending', () => {
+    expect(mergeRemote(remote, { title: T2 }, local, undefined)).toBe(remote)
+    expect(mergeRemote(remote, { title: T2 }, undefined, change())).toBe(remote)
+  })
+
+  it('keeps pending local fields unless the server has a newer value', () => {
+    const pending = change({ fields: { title: { value: 'Local', at: T2 }, priority: { value: 'low', at: T2 } } })
+    const merged = mergeRemote(remote, { title: T1, priority: T3 }, local, pending)
+    expect(merged.title).toBe('Local')
+    expect(merged.priority).toBe('high')
+  })
+})
+
+describe('SyncEngine', () => {
+  it('pushes pending changes, pulls and schedules the next pull', async () => {
+    const { clock, advance } = fakeClock(START)
+    const { target, pulled } = fakeTarget([change()])
+    const { transport, pushed } = fakeTransport()
+    const engine = new SyncEngine({ target, transport, clock })
+    engine.start()
+    advance(0)
+    await flush()
+
+    expect(pushed).toEqual([[change()]])
+    expect(target.pendingChanges()).toEqual([])
+    expect(pulled).toHaveLength(1)
+    expect(engine.getStatus()).toMatchObject({ state: 'idle', pending: 0, lastSyncedAt: T1, error: null })
+
+    advance(30 * 1000)
+    await flush()
+    expect(pulled).toHaveLength(2)
+    engine.stop()
+  })
+
+  it('waits briefly before pushing a local change', async () => {
+    const { clock, advance } = fakeClock(START)
+    const { target } = fakeTarget([change()])
+    const { transport, pushed } = fakeTransport()
+    const engine = new SyncEngine({ target, transport, clock })
+    engine.start()
+    engine.requestSync()
+    expect(engine.getStatus().pending).toBe(1)
+    advance(499)
+    await flush()
+    expect(pushed).toEqual([])
+    advance(1)
+    await flush()
+    expect(pushed).toHaveLength(1)
+    engine.stop()
+  })
+
+  it('keeps changes and backs off when a push fails', async () => {
+    const { clock, advance } = fakeClock(START)
+    const { target } = fakeTarget([change()])
+    const { transport, pushed, failures } = fakeTransport()
+    failures.push(new SyncHttpError(503, '503 Service Unavailable'), new TypeError('Failed to fetch'))
+    const engine = new SyncEngine({ target, transport, clock })
+    engine.start()
+    advance(0)
+    await flush()
+
+    const status = engine.getStatus()
+    expect(status).toMatchObject({ state: 'error', pending: 1, error: '503 Service Unavailable' })
+    expect(status.retryAt).toBeGreaterThanOrEqual(START + 800)
+    expect(status.retryAt).toBeLessThanOrEqual(START + 1200)
+
+    advance(1200)
+    await flush()
+    expect(engine.getStatus()).toMatchObject({ state: 'offline', pending: 1 })
+    expect(engine.getStatus().retryAt).toBeGreaterThanOrEqual(START + 1200 + 1600)
+
+    advance(2400)
+    await flush()
+    expect(pushed).toEqual([[change()]])
+    expect(engine.getStatus()).toMatchObject({ state: 'idle', pending: 0, retryAt: null, error: null })
+    engine.stop()
+  })
+})
+
+describe('syncing two devices through the reference server', () => {
+  let server: SyncServer
+  let endpoint: string
+
+  beforeEach(async () => {
+    server = createSyncServer()
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const address = server.address()
+    endpoint = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`
+  })
+
+  afterEach(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+  async function device(transport: (endpoint: string) => SyncTransport = createHttpTransport) {
+    const { clock } = fakeClock(START)
+    const database = new TanStackDatabase({ storage: createMemoryStorage(), channel, transport, clock })
+    await database.configureSync(endpoint)
+    return database
+  }
+
+  const titles = async (database: TanStackDatabase) => (await database.getTasks()).map((item) => item.title)
+
+  it('keeps concurrent edits to different fields from both devices', async () => {
+    const phone = await device()
+    const laptop = await device()
+    const created = await phone.addTask({ title: 'Draft' })
+    await phone.syncNow()
+    await laptop.syncNow()
+    expect(await titles(laptop)).toEqual(['Draft'])
+
+    await phone.updateTask({ id: created.id, title: 'Final' })
+    await laptop.updateTask({ id: created.id, priority: 'high' })
+    await phone.syncNow()
+    await laptop.syncNow()
+    await phone.syncNow()
+
+    for (const database of [phone, laptop]) {
+      expect(await database.getTasks()).toEqual([expect.objectContaining({ id: created.id, title: 'Final', priority: 'high' })])
+      expect(database.getSyncStatus().pending).toBe(0)
+    }
+  })
+
+  it('propagates deletes', async () => {
+    const phone = await device()
+    const laptop = await device()
+    const created = await phone.addTask({ title: 'Temporary' })
+    await phone.syncNow()
+    await laptop.syncNow()
+
+    await phone.deleteTask(created.id)
+    await phone.syncNow()
+    await laptop.syncNow()
+    expect(await titles(laptop)).toEqual([])
+    expect((await laptop.getTrash()).map((item) => item.id)).toEqual([created.id])
+
+    await phone.purgeTasks([created.id])
+    await phone.syncNow()
+    await laptop.syncNow()
+    expect(await laptop.getTrash()).toEqual([])
+  })
+
+  it('keeps a change in the outbox until a push succeeds', async () => {
+    let online = false
+    const phone = await device((url) => {
+      const http = createHttpTransport(url)
+      return {
+        push: (changes) => (online ? http.push(changes) : Promise.reject(new SyncHttpError(503, '503 Service Unavailable'))),
+        pull: (cursor) => http.pull(cursor),
+      }
+    })
+    const laptop = await device()
+    await phone.addTask({ title: 'Offline edit' })
+    await phone.syncNow()
+    expect(phone.getSyncStatus()).toMatchObject({ state: 'error', pending: 1 })
+    await laptop.syncNow()
+    expect(await titles(laptop)).toEqual([])
+
+    online = true
+    await phone.syncNow()
+    expect(phone.getSyncStatus()).toMatchObject({ state: 'idle', pending: 0 })
+    await laptop.syncNow()
+    expect(await titles(laptop)).toEqual(['Offline edit'])
+  })
+})
@@ -0,0 +1,256 @@
+import { z } from 'zod'
+import { systemClock, type Clock } from './reminders'
+import type { SyncChange, Task } from './schema'
+
+const PUSH_DELAY = 500
+const PULL_INTERVAL = 30 * 1000
+const BASE_BACKOFF = 1000
+const MAX_BACKOFF = 5 * 60 * 1000
+
+const pullResponseSchema = z.object({
+  cursor: z.number().int().nonnegative(),
+  records: z.array(z.object({ task: z.unknown(), clocks: z.record(z.string(), z.string()) })),
+  removed: z.array(z.object({ id: z.string(), at: z.string() })),
+})
+
+const pushResponseSchema = z.object({
+  cursor: z.number().int().nonnegative(),
+})
+
+export const syncStateSchema = z.object({
+  endpoint: z.string().url(),
+  cursor: z.number().int().nonnegative(),
+})
+
+export type SyncSettings = z.infer<typeof syncStateSchema>
+
+export type PullResponse = z.infer<typeof pullResponseSchema>
+export type PushResponse = z.infer<typeof pushResponseSchema>
+
+export interface SyncTransport {
+  push(changes: SyncChange[]): Promise<PushResponse>
+  pull(cursor: number): Promise<PullResponse>
+}
+
+export interface SyncTarget {
+  pendingChanges(): SyncChange[]
+  acknowledge(changes: SyncChange[]): Promise<void>
+  applyPulled(response: PullResponse): Promise<void>
+  cursor(): number
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error'
+
+export type SyncStatus = {
+  state: SyncState
+  pending: number
+  lastSyncedAt: string | null
+  retryAt: number | null
+  error: string | null
+}
+
+export const DISABLED_SYNC_STATUS: SyncStatus = { state: 'disabled', pending: 0, lastSyncedAt: null, retryAt: null, error: null }
+
+export class SyncHttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'SyncHttpError'
+    this.status = status
+  }
+}
+
+export function createHttpTransport(endpoint: string, fetcher: typeof fetch = (input, init) => fetch(input, init)): SyncTransport {
+  const base = endpoint.replace(/\/+$/, '')
+  const send = async <TSchema extends z.ZodType>(schema: TSchema, path: string, init?: RequestInit): Promise<z.infer<TSchema>> => {
+    const response = await fetcher(`${base}${path}`, init)
+    if (!response.ok) throw new SyncHttpError(response.status, `${response.status} ${response.statusText}`.trim())
+    return schema.parse(await response.json())
+  }
+
+  return {
+    push: (changes) =>
+      send(pushResponseSchema, '/changes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes }),
+      }),
+    pull: (cursor) => send(pullResponseSchema, `/changes?since=${cursor}`),
+  }
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+export function diffFields(before: Task | null, after: Task, at: string): SyncChange['fields'] {
+  const fields: SyncChange['fields'] = {}
+  for (const key of Object.keys(after) as (keyof Task)[]) {
+    if (!before || !sameValue(before[key], after[key])) fields[key] = { value: after[key], at }
+  }
+  return fields
+}
+
+export function mergeChange(current: SyncChange | undefined, next: SyncChange): SyncChange {
+  if (!current) return next
+  return {
+    id: next.id,
+    fields: { ...current.fields, ...next.fields },
+    deletedAt: next.deletedAt ?? current.deletedAt,
+    updatedAt: next.updatedAt,
+  }
+}
+
+export function mergeRemote(remote: Task, clocks: Record<string, string>, local: Task | undefined, pending: SyncChange | undefined): Task {
+  if (!local || !pending) return remote
+  const merged: Record<string, unknown> = { ...remote }
+  for (const [key, field] of Object.entries(pending.fields)) {
+    if (key in local && field.at >= (clocks[key] ?? '')) merged[key] = local[key as keyof Task]
+  }
+  return merged as Task
+}
+
+export function backoffDelay(attempt: number, random: () => number = Math.random) {
+  const delay = Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** Math.max(0, attempt - 1))
+  return Math.round(delay * (0.8 + random() * 0.4))
+}
+
+function isOffline(error: unknown) {
+  return (typeof navigator !== 'undefined' && navigator.onLine === false) || error instanceof TypeError
+}
+
+type SyncEngineOptions = {
+  target: SyncTarget
+  transport: SyncTransport
+  clock?: Clock
+}
+
+export class SyncEngine {
+  private status: SyncStatus = { ...DISABLED_SYNC_STATUS, state: 'idle' }
+  private readonly listeners = new Set<() => void>()
+  private readonly target: SyncTarget
+  private readonly transport: SyncTransport
+  private readonly clock: Clock
+  private timer: unknown = null
+  private attempt = 0
+  private running: Promise<void> | null = null
+  private again = false
+  private stopped = true
+
+  constructor({ target, transport, clock = systemClock }: SyncEngineOptions) {
+    this.target = target
+    this.transport = transport
+    this.clock = clock
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStatus() {
+    return this.status
+  }
+
+  start() {
+    if (!this.stopped) return
+    this.stopped = false
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline)
+      window.addEventListener('offline', this.handleOffline)
+    }
+    this.schedule(0)
+  }
+
+  stop() {
+    this.stopped = true
+    this.clearTimer()
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline)
+      window.removeEventListener('offline', this.handleOffline)
+    }
+  }
+
+  requestSync() {
+    this.update({ pending: this.target.pendingChanges().length })
+    if (this.attempt === 0) this.schedule(PUSH_DELAY)
+  }
+
+  syncNow(): Promise<void> {
+    if (this.running) {
+      this.again = true
+      return this.running
+    }
+    this.clearTimer()
+    this.running = this.cycle().finally(() => {
+      this.running = null
+      if (this.again && !this.stopped) {
+        this.again = false
+        void this.syncNow()
+      }
+    })
+    return this.running
+  }
+
+  private async cycle() {
+    this.update({ state: 'syncing', retryAt: null })
+    try {
+      const pending = this.target.pendingChanges()
+      if (pending.length) {
+        await this.transport.push(pending)
+        await this.target.acknowledge(pending)
+      }
+      await this.target.applyPulled(await this.transport.pull(this.target.cursor()))
+      this.attempt = 0
+      this.update({
+        state: 'idle',
+        pending: this.target.pendingChanges().length,
+        lastSyncedAt: new Date(this.clock.now()).toISOString(),
+        error: null,
+      })
+      this.schedule(PULL_INTERVAL)
+    } catch (error) {
+      this.attempt += 1
+      const delay = backoffDelay(this.attempt)
+      this.update({
+        state: isOffline(error) ? 'offline' : 'error',
+        pending: this.target.pendingChanges().length,
+        retryAt: this.clock.now() + delay,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      this.schedule(delay)
+    }
+  }
+
+  private schedule(delay: number) {
+    if (this.stopped) return
+    this.clearTimer()
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null
+      void this.syncNow()
+    }, delay)
+  }
+
+  private clearTimer() {
+    if (this.timer === null) return
+    this.clock.clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  private update(patch: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...patch }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  private readonly handleOnline = () => {
+    this.attempt = 0
+    void this.syncNow()
+  }
+
+  private readonly handleOffline = () => {
+    this.update({ state: 'offline' })
+  }
+}
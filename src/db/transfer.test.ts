@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest'
+import { messages } from '../i18n'
+import { task } from '../test/fixtures'
+import { fromRRule, toRRule } from './recurrence'
+import type { Task } from './schema'
+import { exportCsv, exportIcs, exportJson, ImportFormatError, parseImport, previewImport, type ImportBundle } from './transfer'
+
+const CREATED = '2024-06-01T08:30:00Z'
+const UPDATED = '2024-06-02T17:45:10Z'
+
+const tasks: Task[] = [
+  task({
+    id: 'a1',
+    title: 'Quote "this", then; that',
+    description: 'Line one\nLine two, with \\ backslash',
+    status: 'in-progress',
+    priority: 'high',
+    dueDate: '2024-06-20',
+    labelIds: ['l1', 'l2'],
+    checklist: [{ id: 'c1', title: 'Step, "one"', done: true }],
+    recurrence: { type: 'weekly', interval: 2, weekdays: [1, 3], until: '2024-12-31' },
+    createdAt: CREATED,
+    updatedAt: UPDATED,
+  }),
+  task({
+    id: 'a2',
+    title: '長いタスク名'.repeat(20),
+    status: 'done',
+    priority: 'low',
+    recurrence: { type: 'monthly', interval: 1, dayOfMonth: 15, until: null },
+    createdAt: CREATED,
+    updatedAt: UPDATED,
+  }),
+  task({ id: 'a3', title: 'Plain', createdAt: CREATED, updatedAt: UPDATED }),
+]
+
+function imported(bundle: ImportBundle) {
+  return bundle.tasks.map(({ id, input, createdAt, updatedAt }) => ({ id, ...input, createdAt, updatedAt }))
+}
+
+function pick(source: Task[], keys: (keyof Task)[]) {
+  return source.map((item) => Object.fromEntries(keys.map((key) => [key, item[key] ?? null])))
+}
+
+describe('round trips', () => {
+  it('reads back every task field from JSON', () => {
+    const bundle = parseImport(exportJson(tasks, [], []), 'json')
+    expect(bundle.issues).toEqual([])
+    const keys = Object.keys(tasks[0]).filter((key) => key !== 'deletedAt') as (keyof Task)[]
+    expect(pick(imported(bundle) as Task[], keys)).toEqual(pick(tasks, keys))
+  })
+
+  it('reads back the CSV columns', () => {
+    const keys: (keyof Task)[] = [
+      'id',
+      'title',
+      'description',
+      'status',
+      'priority',
+      'listId',
+      'dueDate',
+      'labelIds',
+      'checklist',
+      'recurrence',
+      'createdAt',
+      'updatedAt',
+    ]
+    const bundle = parseImport(exportCsv(tasks), 'csv')
+    expect(bundle.issues).toEqual([])
+    expect(pick(imported(bundle) as Task[], keys)).toEqual(pick(tasks, keys))
+  })
+
+  it('reads back the iCalendar properties', () => {
+    const keys: (keyof Task)[] = ['id', 'title', 'description', 'status', 'priority', 'dueDate', 'recurrence', 'createdAt', 'updatedAt']
+    const bundle = parseImport(exportIcs(tasks), 'ics')
+    expect(bundle.issues).toEqual([])
+    expect(pick(imported(bundle) as Task[], keys)).toEqual(pick(tasks, keys))
+  })
+})
+
+describe('CSV', () => {
+  it('parses quoted cells with commas, escaped quotes and line breaks', () => {
+    const bundle = parseImport('\uFEFFtitle,description\r\n"Buy ""milk"", eggs","two\nlines"\r\nplain,"a,b"\r\n\r\n', 'csv')
+    expect(bundle.tasks.map(({ input }) => [input.title, input.description])).toEqual([
+      ['Buy "milk", eggs', 'two\nlines'],
+      ['plain', 'a,b'],
+    ])
+    expect(bundle.tasks.map(({ row }) => row)).toEqual([2, 3])
+  })
+
+  it('rejects files it cannot read at all', () => {
+    expect(() => parseImport('title\n"never closed', 'csv')).toThrow(ImportFormatError)
+    expect(() => parseImport('name,due\nx,2024-06-01', 'csv')).toThrow(messages().errors.csvTitle)
+    expect(() => parseImport('\n\n', 'csv')).toThrow(messages().errors.csvEmpty)
+  })
+})
+
+describe('iCalendar', () => {
+  it('folds long lines at 75 octets and unfolds them again', () => {
+    const text = exportIcs(tasks)
+    const encoder = new TextEncoder()
+    const lines = text.split('\r\n')
+    lines.forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75))
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true)
+    expect(parseImport(text, 'ics').tasks[1].input.title).toBe(tasks[1].title)
+  })
+
+  it('escapes and unescapes text values', () => {
+    expect(exportIcs([tasks[0]])).toContain('SUMMARY:Quote "this"\\, then\\; that\r\n')
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VTODO',
+      'UID:x1',
+      'SUMMARY:a\\, b\\; c\\\\ d\\Ne',
+      'DESCRIPTION:folded',
+      '\tacross lines',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n')
+    expect(parseImport(text, 'ics').tasks.map(({ input }) => [input.title, input.description])).toEqual([
+      ['a, b; c\\ d\ne', 'foldedacross lines'],
+    ])
+  })
+
+  it('maps recurrence rules to and from RRULE', () => {
+    expect(toRRule({ type: 'daily', interval: 3, until: null })).toBe('FREQ=DAILY;INTERVAL=3')
+    expect(toRRule({ type: 'weekly', interval: 1, weekdays: [0, 5], until: '2024-12-31' })).toBe(
+      'FREQ=WEEKLY;INTERVAL=1;BYDAY=SU,FR;UNTIL=20241231',
+    )
+    expect(fromRRule('RRULE:FREQ=WEEKLY;BYDAY=1MO,-1FR;UNTIL=20241231T000000Z')).toEqual({
+      type: 'weekly',
+      interval: 1,
+      weekdays: [1, 5],
+      until: '2024-12-31',
+    })
+    expect(fromRRule('FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=31')).toEqual({ type: 'monthly', interval: 2, dayOfMonth: 31, until: null })
+    expect(fromRRule('FREQ=MONTHLY;BYMONTHDAY=-1')).toBeNull()
+    expect(fromRRule('FREQ=YEARLY')).toBeNull()
+  })
+
+  it('rejects text that is not a calendar', () => {
+    expect(() => parseImport('BEGIN:VTODO\r\nEND:VTODO', 'ics')).toThrow(messages().errors.notIcs)
+  })
+})
+
+describe('malformed rows', () => {
+  it('reports bad CSV rows and keeps the good ones in the preview', () => {
+    const text = [
+      'title,priority,checklist,recurrence',
+      'First,high,,',
+      ',low,,',
+      'Bad checklist,,[oops,',
+      'Bad rule,,,FREQ=YEARLY',
+      'Bad priority,urgent,,',
+      'Second,,,FREQ=DAILY',
+    ].join('\n')
+    const bundle = parseImport(text, 'csv')
+    expect(bundle.tasks.map(({ row, input }) => [row, input.title])).toEqual([
+      [2, 'First'],
+      [7, 'Second'],
+    ])
+    expect(bundle.issues.map(({ row }) => row).sort()).toEqual([3, 4, 5, 6])
+    expect(bundle.issues).toContainEqual({ row: 4, reason: messages().errors.csvChecklist })
+    expect(bundle.issues).toContainEqual({ row: 5, reason: messages().errors.csvRecurrence('FREQ=YEARLY') })
+
+    const existing = task({ id: 'x1', title: 'second' })
+    expect(
+      previewImport(bundle, [existing]).map(({ task, duplicateOf, matchedBy }) => [task.input.title, duplicateOf?.id, matchedBy]),
+    ).toEqual([
+      ['First', undefined, undefined],
+      ['Second', 'x1', 'title'],
+    ])
+  })
+
+  it('reports bad JSON records and keeps the good ones in the preview', () => {
+    const bundle = parseImport(
+      JSON.stringify([
+        { id: 'a1', title: 'Good' },
+        { id: 'a2', title: '' },
+        { id: 'a3', title: 'Bad', priority: 'urgent' },
+      ]),
+      'json',
+    )
+    expect(bundle.tasks.map(({ id }) => id)).toEqual(['a1'])
+    expect(bundle.issues.map(({ row }) => row)).toEqual([2, 3])
+
+    const existing = task({ id: 'a1', title: 'Renamed' })
+    expect(previewImport(bundle, [existing])).toEqual([{ task: bundle.tasks[0], duplicateOf: existing, matchedBy: 'id' }])
+  })
+
+  it('rejects JSON it cannot read at all', () => {
+    expect(() => parseImport('{not json', 'json')).toThrow(messages().errors.unreadableJson)
+    expect(() => parseImport('{"tasks": []}', 'json')).toThrow(messages().errors.notExport)
+    expect(() => parseImport(JSON.stringify({ format: 'tanstack-todo', version: 999, tasks: [] }), 'json')).toThrow(ImportFormatError)
+  })
+})
@@ -0,0 +1,420 @@
+import { z } from 'zod'
+import { messages } from '../i18n'
+import { migrateRecord, TASK_SCHEMA_VERSION } from './migrations'
+import { fromRRule, toRRule } from './recurrence'
+import {
+  labelSchema,
+  taskInputSchema,
+  taskListSchema,
+  type Label,
+  type Task,
+  type TaskList,
+  type TaskPriority,
+  type Workflow,
+  workflowSchema,
+} from './schema'
+import { DEFAULT_WORKFLOW, initialStatus, isDoneStatus } from './workflow'
+
+export const EXPORT_FORMAT = 'tanstack-todo'
+
+export type TransferFormat = 'json' | 'csv' | 'ics'
+export type ImportMode = 'merge' | 'replace'
+export type DuplicateStrategy = 'skip' | 'overwrite'
+
+export type ImportedTask = {
+  row: number
+  id?: string
+  input: z.output<typeof taskInputSchema>
+  createdAt?: string
+  updatedAt?: string
+  deletedAt?: string
+}
+
+export type ImportIssue = {
+  row: number
+  reason: string
+}
+
+export type ImportBundle = {
+  format: TransferFormat
+  tasks: ImportedTask[]
+  labels: Label[]
+  lists: TaskList[]
+  workflow?: Workflow
+  issues: ImportIssue[]
+}
+
+export type ImportPreviewRow = {
+  task: ImportedTask
+  duplicateOf?: Task
+  matchedBy?: 'id' | 'title'
+}
+
+export type ImportOptions = {
+  mode: ImportMode
+  duplicates: DuplicateStrategy
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause })
+    this.name = 'ImportFormatError'
+  }
+}
+
+const exportEnvelopeSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().nonnegative(),
+  exportedAt: z.string().optional(),
+  tasks: z.array(z.unknown()),
+  labels: z.array(z.unknown()).optional(),
+  lists: z.array(z.unknown()).optional(),
+  workflow: z.unknown().optional(),
+})
+
+const csvColumns = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'listId',
+  'dueDate',
+  'labelIds',
+  'checklist',
+  'recurrence',
+  'createdAt',
+  'updatedAt',
+] as const
+
+const icsStatus: Record<string, string> = { todo: 'NEEDS-ACTION', 'in-progress': 'IN-PROCESS', done: 'COMPLETED' }
+const icsPriority: Record<TaskPriority, number> = { high: 1, medium: 5, low: 9 }
+
+function timestampOf(value: unknown) {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined
+}
+
+function toImported(record: unknown, row: number): ImportedTask | ImportIssue {
+  const parsed = taskInputSchema.safeParse(record)
+  if (!parsed.success) return { row, reason: z.prettifyError(parsed.error) }
+  const source = record as Record<string, unknown>
+  return {
+    row,
+    id: typeof source.id === 'string' && source.id ? source.id : undefined,
+    input: parsed.data,
+    createdAt: timestampOf(source.createdAt),
+    updatedAt: timestampOf(source.updatedAt),
+    deletedAt: timestampOf(source.deletedAt),
+  }
+}
+
+function collect(records: { record: unknown; row: number }[]) {
+  const tasks: ImportedTask[] = []
+  const issues: ImportIssue[] = []
+  records.forEach(({ record, row }) => {
+    const result = toImported(record, row)
+    if ('reason' in result) {
+      issues.push(result)
+    } else {
+      tasks.push(result)
+    }
+  })
+  return { tasks, issues }
+}
+
+export function exportJson(tasks: Task[], labels: Label[], lists: TaskList[], workflow: Workflow = DEFAULT_WORKFLOW, now = new Date()) {
+  return JSON.stringify(
+    { format: EXPORT_FORMAT, version: TASK_SCHEMA_VERSION, exportedAt: now.toISOString(), tasks, labels, lists, workflow },
+    null,
+    2,
+  )
+}
+
+function parseJson(text: string): ImportBundle {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    throw new ImportFormatError(messages().errors.unreadableJson, error)
+  }
+
+  const envelope = exportEnvelopeSchema.safeParse(Array.isArray(raw) ? { format: EXPORT_FORMAT, version: 0, tasks: raw } : raw)
+  if (!envelope.success) throw new ImportFormatError(messages().errors.notExport)
+  if (envelope.data.version > TASK_SCHEMA_VERSION) {
+    throw new ImportFormatError(messages().errors.newerVersion(envelope.data.version))
+  }
+
+  const issues: ImportIssue[] = []
+  const records = envelope.data.tasks.flatMap((record, index) => {
+    try {
+      return [{ record: migrateRecord(record, envelope.data.version), row: index + 1 }]
+    } catch (error) {
+      issues.push({ row: index + 1, reason: error instanceof Error ? error.message : String(error) })
+      return []
+    }
+  })
+  const collected = collect(records)
+  return {
+    format: 'json',
+    workflow: workflowSchema.safeParse(envelope.data.workflow).data,
+    tasks: collected.tasks,
+    issues: [...issues, ...collected.issues],
+    labels: (envelope.data.labels ?? []).flatMap((label) => {
+      const parsed = labelSchema.safeParse(label)
+      return parsed.success ? [parsed.data] : []
+    }),
+    lists: (envelope.data.lists ?? []).flatMap((list) => {
+      const parsed = taskListSchema.safeParse(list)
+      return parsed.success ? [parsed.data] : []
+    }),
+  }
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+}
+
+export function exportCsv(tasks: Task[]) {
+  const rows = tasks.map((task) =>
+    [
+      task.id,
+      task.title,
+      task.description ?? '',
+      task.status,
+      task.priority,
+      task.listId,
+      task.dueDate ?? '',
+      task.labelIds.join(';'),
+      task.checklist.length ? JSON.stringify(task.checklist) : '',
+      task.recurrence ? toRRule(task.recurrence) : '',
+      task.createdAt,
+      task.updatedAt,
+    ].map(csvCell),
+  )
+  return [csvColumns.join(','), ...rows.map((row) => row.join(','))].join('\r\n')
+}
+
+function parseCsvRows(text: string) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (quoted) throw new ImportFormatError(messages().errors.csvQuote)
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()))
+}
+
+function parseCsv(text: string): ImportBundle {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) throw new ImportFormatError(messages().errors.csvEmpty)
+  const columns = header.map((name) => name.trim())
+  if (!columns.includes('title')) throw new ImportFormatError(messages().errors.csvTitle)
+
+  const issues: ImportIssue[] = []
+  const records = rows.flatMap((cells, index) => {
+    const row = index + 2
+    const value = (name: (typeof csvColumns)[number]) => {
+      const column = columns.indexOf(name)
+      return column === -1 ? '' : (cells[column] ?? '').trim()
+    }
+    let checklist: unknown = []
+    if (value('checklist')) {
+      try {
+        checklist = JSON.parse(value('checklist'))
+      } catch {
+        issues.push({ row, reason: messages().errors.csvChecklist })
+        return []
+      }
+    }
+    const recurrence = value('recurrence') ? fromRRule(value('recurrence')) : null
+    if (value('recurrence') && !recurrence) {
+      issues.push({ row, reason: messages().errors.csvRecurrence(value('recurrence')) })
+      return []
+    }
+    const record = {
+      id: value('id') || undefined,
+      title: value('title'),
+      description: value('description'),
+      status: value('status') || undefined,
+      priority: value('priority') || undefined,
+      listId: value('listId') || undefined,
+      dueDate: value('dueDate') || null,
+      labelIds: value('labelIds') ? value('labelIds').split(';').filter(Boolean) : [],
+      checklist,
+      recurrence,
+      createdAt: value('createdAt') || undefined,
+      updatedAt: value('updatedAt') || undefined,
+    }
+    return [{ record, row }]
+  })
+  const collected = collect(records)
+  return { format: 'csv', tasks: collected.tasks, issues: [...issues, ...collected.issues], labels: [], lists: [] }
+}
+
+function icsEscape(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+function icsUnescape(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+function icsTimestamp(value: string) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function fold(line: string) {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length ? 74 : 75)) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function toIcsStatus(workflow: Workflow, status: string) {
+  if (isDoneStatus(workflow, status)) return icsStatus.done
+  return status === initialStatus(workflow) ? icsStatus.todo : icsStatus['in-progress']
+}
+
+export function exportIcs(tasks: Task[], workflow: Workflow = DEFAULT_WORKFLOW, now = new Date()) {
+  const stamp = icsTimestamp(now.toISOString())
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//tanstack-todo//JA', 'CALSCALE:GREGORIAN']
+  tasks.forEach((task) => {
+    lines.push('BEGIN:VTODO', `UID:${task.id}`, `DTSTAMP:${stamp}`, `SUMMARY:${icsEscape(task.title)}`)
+    if (task.description) lines.push(`DESCRIPTION:${icsEscape(task.description)}`)
+    if (task.dueDate) lines.push(`DUE;VALUE=DATE:${task.dueDate.slice(0, 10).replaceAll('-', '')}`)
+    if (task.recurrence) lines.push(`RRULE:${toRRule(task.recurrence)}`)
+    lines.push(
+      `STATUS:${toIcsStatus(workflow, task.status)}`,
+      `PRIORITY:${icsPriority[task.priority]}`,
+      `CREATED:${icsTimestamp(task.createdAt)}`,
+      `LAST-MODIFIED:${icsTimestamp(task.updatedAt)}`,
+      'END:VTODO',
+    )
+  })
+  lines.push('END:VCALENDAR')
+  return `${lines.map(fold).join('\r\n')}\r\n`
+}
+
+function fromIcsDate(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value)
+  if (!match) return undefined
+  const [, year, month, day, hour, minute, second] = match
+  return hour ? `${year}-${month}-${day}T${hour}:${minute}:${second}Z` : `${year}-${month}-${day}`
+}
+
+function parseIcs(text: string): ImportBundle {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  if (!lines.some((line) => line.trim() === 'BEGIN:VCALENDAR')) throw new ImportFormatError(messages().errors.notIcs)
+
+  const records: { record: unknown; row: number }[] = []
+  let current: Record<string, string> | null = null
+  let row = 0
+  lines.forEach((line) => {
+    if (line === 'BEGIN:VTODO') {
+      current = {}
+      row++
+      return
+    }
+    if (line === 'END:VTODO' && current) {
+      const props: Record<string, string> = current
+      const status = Object.entries(icsStatus).find(([, value]) => value === props.STATUS)?.[0]
+      const priority = Number(props.PRIORITY)
+      const due = props.DUE ? fromIcsDate(props.DUE) : undefined
+      records.push({
+        row,
+        record: {
+          id: props.UID,
+          title: icsUnescape(props.SUMMARY ?? ''),
+          description: icsUnescape(props.DESCRIPTION ?? ''),
+          status: status ?? 'todo',
+          priority: !priority ? 'medium' : priority <= 4 ? 'high' : priority >= 6 ? 'low' : 'medium',
+          dueDate: due ? due.slice(0, 10) : null,
+          recurrence: props.RRULE ? fromRRule(props.RRULE) : null,
+          createdAt: props.CREATED ? fromIcsDate(props.CREATED) : undefined,
+          updatedAt: props['LAST-MODIFIED'] ? fromIcsDate(props['LAST-MODIFIED']) : undefined,
+        },
+      })
+      current = null
+      return
+    }
+    if (!current) return
+    const separator = line.indexOf(':')
+    if (separator === -1) return
+    const name = line.slice(0, separator).split(';')[0].toUpperCase()
+    current[name] = line.slice(separator + 1)
+  })
+
+  const collected = collect(records)
+  return { format: 'ics', ...collected, labels: [], lists: [] }
+}
+
+export function detectFormat(fileName: string, text: string): TransferFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'json' || extension === 'csv' || extension === 'ics') return extension
+  const trimmed = text.trimStart()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json'
+  if (trimmed.startsWith('BEGIN:VCALENDAR')) return 'ics'
+  return 'csv'
+}
+
+export function parseImport(text: string, format: TransferFormat): ImportBundle {
+  switch (format) {
+    case 'json':
+      return parseJson(text)
+    case 'csv':
+      return parseCsv(text)
+    case 'ics':
+      return parseIcs(text)
+  }
+}
+
+export function previewImport(bundle: ImportBundle, existing: Task[]): ImportPreviewRow[] {
+  const byId = new Map(existing.map((task) => [task.id, task]))
+  const titleKey = (title: string) => title.trim().toLowerCase()
+  const byTitle = new Map(existing.map((task) => [titleKey(task.title), task]))
+  return bundle.tasks.map((task) => {
+    const idMatch = task.id ? byId.get(task.id) : undefined
+    if (idMatch) return { task, duplicateOf: idMatch, matchedBy: 'id' }
+    const titleMatch = task.deletedAt ? undefined : byTitle.get(titleKey(task.input.title))
+    if (titleMatch) return { task, duplicateOf: titleMatch, matchedBy: 'title' }
+    return { task }
+  })
+}
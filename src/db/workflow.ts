@@ -0,0 +1,57 @@
+import { messages } from '../i18n'
+import type { Task, TaskStatus, Workflow, WorkflowColumn } from './schema'
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  columns: [
+    { id: 'todo', name: '未着手', wipLimit: null, wipMode: 'warn' },
+    { id: 'in-progress', name: '進行中', wipLimit: null, wipMode: 'warn' },
+    { id: 'done', name: '完了', wipLimit: null, wipMode: 'warn' },
+  ],
+  doneColumnId: 'done',
+  updatedAt: new Date(0).toISOString(),
+}
+
+export type WipCheck = {
+  column: WorkflowColumn
+  count: number
+  exceeded: boolean
+}
+
+export function findColumn(workflow: Workflow, status: TaskStatus) {
+  return workflow.columns.find((column) => column.id === status)
+}
+
+export function columnLabel(column: WorkflowColumn) {
+  return column.name === findColumn(DEFAULT_WORKFLOW, column.id)?.name ? (messages().status[column.id] ?? column.name) : column.name
+}
+
+export function columnName(workflow: Workflow, status: TaskStatus) {
+  const column = findColumn(workflow, status)
+  return column ? columnLabel(column) : status
+}
+
+export function isDoneStatus(workflow: Workflow, status: TaskStatus) {
+  return status === workflow.doneColumnId
+}
+
+export function initialStatus(workflow: Workflow) {
+  return workflow.columns.find((column) => column.id !== workflow.doneColumnId)?.id ?? workflow.columns[0].id
+}
+
+export function resolveStatus(workflow: Workflow, status: TaskStatus) {
+  if (findColumn(workflow, status)) return status
+  if (status === 'done') return workflow.doneColumnId
+  return initialStatus(workflow)
+}
+
+export function columnIndex(workflow: Workflow, status: TaskStatus) {
+  const index = workflow.columns.findIndex((column) => column.id === status)
+  return index === -1 ? workflow.columns.length : index
+}
+
+export function checkWip(workflow: Workflow, tasks: Task[], status: TaskStatus, adding = 1): WipCheck | undefined {
+  const column = findColumn(workflow, status)
+  if (!column?.wipLimit) return undefined
+  const count = tasks.filter((task) => task.status === status).length
+  return { column, count, exceeded: count + adding > column.wipLimit }
+}
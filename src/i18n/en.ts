@@ -0,0 +1,432 @@
+import type { Messages } from './ja'
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+const ordinal = (value: number) => {
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13 ? 'th' : (({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] ?? 'th')
+  return `${value}${suffix}`
+}
+
+export const en: Messages = {
+  common: {
+    add: 'Add',
+    all: 'All',
+    cancel: 'Cancel',
+    close: 'Close',
+    create: 'Create',
+    delete: 'Delete',
+    details: 'Details',
+    moveDown: 'Move down',
+    moveUp: 'Move up',
+    none: 'None',
+    open: 'Open',
+    redo: 'Redo',
+    restore: 'Restore',
+    undo: 'Undo',
+    due: (date) => `Due: ${date}`,
+    created: (date) => `Created: ${date}`,
+    updated: (date) => `Updated: ${date}`,
+    deleteNamed: (name) => `Delete ${name}`,
+    confirmTrash: (title) => `Move "${title}" to the trash?`,
+  },
+  priority: {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+  },
+  status: {
+    todo: 'To do',
+    'in-progress': 'In progress',
+    done: 'Done',
+  },
+  storage: {
+    indexeddb: 'IndexedDB',
+    localstorage: 'localStorage',
+    memory: 'in-memory',
+  },
+  app: {
+    lede: 'The lightness of Google Tasks, the practicality of Microsoft To Do and the status tracking of GitHub Issues, all in your browser.',
+    persisted: (storage) => `Saved to ${storage}`,
+    offline: 'Works offline',
+    shortcuts: '⌨️ Shortcuts',
+    language: 'Language',
+  },
+  toast: {
+    wipExceeded: (column, limit) => `"${column}" is over its WIP limit (${limit})`,
+    wipBlocked: (column, limit) => `"${column}" is over its WIP limit (${limit}). The task was not moved`,
+    movedToTrash: (title) => (title ? `Moved "${title}" to the trash` : 'Moved the task to the trash'),
+    movedManyToTrash: (count) => `Moved ${plural(count, 'task')} to the trash`,
+    undone: (label) => `Undone: ${label}`,
+    redone: (label) => `Redone: ${label}`,
+    addTaskFailed: 'Could not add the task',
+    updateTaskFailed: 'Could not update the task',
+    deleteTaskFailed: 'Could not delete the task',
+    moveTaskFailed: 'Could not move the task',
+    createLabelFailed: 'Could not create the label',
+    updateLabelFailed: 'Could not update the label',
+    deleteLabelFailed: 'Could not delete the label',
+    createListFailed: 'Could not create the list',
+    updateListFailed: 'Could not update the list',
+    deleteListFailed: 'Could not delete the list',
+    skipFailed: 'Could not skip the occurrence',
+    endSeriesFailed: 'Could not end the series',
+    undoFailed: 'Could not undo',
+    redoFailed: 'Could not redo',
+  },
+  board: {
+    title: 'Board',
+    subtitle: 'See every status at a glance, like GitHub Issues',
+    empty: 'Empty',
+    noDescription: 'No details',
+    moveHandle: (title) => `Move task "${title}"`,
+    roleDescription: 'sortable task',
+    statusOf: (title) => `Status of task "${title}"`,
+    wipTitle: (limit, block) => `WIP limit ${limit} (${block ? 'exceeding is blocked' : 'warns when exceeded'})`,
+  },
+  dnd: {
+    instructions:
+      'To move a task, press Space or Enter to pick it up, use the arrow keys to choose where it goes, then press Space or Enter again to drop it. Press Escape to cancel.',
+    position: (column, position) => `${ordinal(position)} in ${column}`,
+    pickedUp: (title, column) => `Picked up task "${title}". It is in ${column}.`,
+    over: (title, place) => `Task "${title}" is ${place}.`,
+    outside: (title) => `Task "${title}" is outside any drop area.`,
+    unchanged: (title) => `Task "${title}" stayed in its original position.`,
+    blocked: (column, title) => `"${column}" has reached its WIP limit, so task "${title}" was not moved.`,
+    moved: (title, place) => `Moved task "${title}" to ${place}.`,
+    movedMany: (count, place) => `Moved ${plural(count, 'task')} to ${place}.`,
+    cancelled: (title) => (title ? `Move cancelled. Task "${title}" returned to its original position.` : 'Move cancelled.'),
+  },
+  bulk: {
+    selected: (count) => `${count} selected`,
+    selectAll: 'Select all visible tasks',
+    select: (title) => `Select "${title}"`,
+    status: 'Status',
+    priority: 'Priority',
+    change: 'Change…',
+    shiftDue: 'Shift due dates',
+    shift: (days) => (days > 0 ? `+${plural(days, 'day')}` : `-${plural(-days, 'day')}`),
+    delete: 'Delete selected',
+    confirmDelete: (count) => `Move ${plural(count, 'task')} to the trash?`,
+    clear: 'Clear selection',
+    dragging: (count) => `Moving ${plural(count, 'task')}`,
+  },
+  taskList: {
+    title: 'Tasks',
+    subtitle: 'Quick list actions and fast switching',
+    newTask: '+ New task',
+    empty: 'No tasks yet. Add one to get started.',
+    order: (order) => `Order: ${order}`,
+  },
+  listView: {
+    sort: 'Sort',
+    sortKeys: { manual: 'Manual (board order)', dueDate: 'Due date', priority: 'Priority', createdAt: 'Created', updatedAt: 'Updated', title: 'Title' },
+    ascending: 'Ascending',
+    descending: 'Descending',
+    groupBy: 'Group',
+    groups: { none: 'None', status: 'Status', priority: 'Priority', due: 'Due date' },
+    due: { overdue: 'Overdue', today: 'Today', week: 'This week', later: 'Later', none: 'No due date' },
+  },
+  editor: {
+    newTitle: 'New task',
+    editTitle: 'Task details',
+    subtitle: 'Practical editing in the style of Microsoft To Do',
+    title: 'Title *',
+    titlePlaceholder: 'e.g. Spec review meeting',
+    description: 'Details',
+    descriptionPlaceholder: 'Notes or details',
+    status: 'Status',
+    priority: 'Priority',
+    list: 'List',
+    dueDate: 'Due date',
+    completeWhenChecklistDone: 'Complete when every item is checked',
+    submitNew: 'Add task',
+    submitUpdate: 'Save changes',
+  },
+  checklist: {
+    title: 'Checklist',
+    complete: (title) => `Mark ${title} as done`,
+    placeholder: 'Add an item',
+    progress: 'Checklist progress',
+    done: (done, total) => `${done}/${total} done`,
+  },
+  labels: {
+    title: 'Labels',
+    subtitle: 'Manage names and colors',
+    empty: 'Create labels from the task editor.',
+    none: 'No labels yet',
+    name: 'Label name',
+    color: 'Label color',
+    colorOf: (name) => `Color of ${name}`,
+    placeholder: 'New label',
+    confirmDelete: (name) => `Delete the label "${name}"?`,
+  },
+  lists: {
+    title: 'Lists',
+    all: 'All tasks',
+    trash: 'Trash',
+    icon: 'Icon',
+    name: 'List name',
+    color: 'List color',
+    placeholder: 'New list',
+    add: 'Add list',
+    confirmDelete: (name, fallback) => `Delete the list "${name}"? Its tasks will move to "${fallback}".`,
+  },
+  smartLists: {
+    title: 'Smart lists',
+    names: { myDay: 'My Day', overdue: 'Overdue', upcoming: 'Next 7 days', planned: 'Planned', important: 'High priority' },
+    overdue: 'Overdue',
+    addToMyDay: 'Add to My Day',
+    removeFromMyDay: 'Remove from My Day',
+  },
+  filters: {
+    title: 'Filters',
+    subtitle: 'Filter by status, priority, due date and labels',
+    dueBefore: 'Due by',
+    labelMode: 'Label matching',
+    labelAny: 'Any of the labels',
+    labelAll: 'All of the labels',
+    includeDone: 'Show completed tasks',
+  },
+  search: {
+    label: 'Search',
+    examples: 'Examples:',
+    sampleLabel: 'work',
+    sampleText: 'spec',
+  },
+  recurrence: {
+    title: 'Repeat',
+    type: 'Repeat type',
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    interval: 'Interval',
+    every: { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' },
+    weekdays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    weekdayGroup: 'Weekdays',
+    monthDay: 'Every month on day',
+    dayOfMonth: 'Day of month',
+    daySuffix: '',
+    until: 'Ends on',
+    next: (date) => `Next: ${date}`,
+    skip: 'Skip this occurrence',
+    end: 'End the series',
+    describe: {
+      until: (date) => ` (until ${date})`,
+      daily: (interval) => (interval === 1 ? 'Every day' : `Every ${interval} days`),
+      weekly: (interval) => (interval === 1 ? 'Every week' : `Every ${interval} weeks`),
+      weekdays: (days) => ` on ${days.join(', ')}`,
+      monthly: (interval, day) => `${interval === 1 ? 'Every month' : `Every ${interval} months`} on day ${day}`,
+    },
+  },
+  reminder: {
+    title: 'Reminder',
+    type: 'Reminder type',
+    atDue: 'At due time',
+    beforeDue: 'Before due time',
+    dueTime: 'Due time',
+    amount: 'Reminder offset',
+    unit: 'Unit',
+    units: { minutes: 'minutes before', hours: 'hours before', days: 'days before' },
+    needsDueDate: 'Set a due date to get reminded',
+    notifyAt: (summary, at) => `${summary} · Notifies at ${at}`,
+    describeAtDue: (time) => `At ${time} on the due date`,
+    describeBefore: (amount, unit) => `${plural(amount, unit.slice(0, -1))} before`,
+    permissionPrompt: 'You can receive reminders as desktop notifications.',
+    allow: 'Allow notifications',
+    banner: (title) => `⏰ Reminder: "${title}"`,
+  },
+  trash: {
+    title: 'Trash',
+    subtitle: (days) => `Deleted tasks are permanently removed after ${plural(days, 'day')}`,
+    retention: 'Keep for',
+    days: (days) => plural(days, 'day'),
+    selectAll: 'Select all',
+    select: (title) => `Select ${title}`,
+    restoreSelected: 'Restore selected',
+    purgeSelected: 'Delete selected permanently',
+    empty: 'Empty trash',
+    isEmpty: 'The trash is empty',
+    deletedAt: (date) => `Deleted: ${date}`,
+    expiresAt: (date) => `Removed on: ${date}`,
+    purge: 'Delete permanently',
+    confirmPurge: (count) => `Permanently delete ${plural(count, 'task')}? This cannot be undone.`,
+    confirmEmpty: 'Empty the trash? This cannot be undone.',
+  },
+  activity: {
+    title: 'Activity',
+    empty: 'No activity yet',
+    created: (title) => `Created "${title}"`,
+    status: (from, to) => `Changed status from ${from} to ${to}`,
+    priority: (from, to) => `Changed priority from ${from} to ${to}`,
+    dueCleared: (from) => `Removed due date ${from}`,
+    dueChanged: (from, to) => `Changed due date from ${from} to ${to}`,
+    dueSet: (to) => `Set due date to ${to}`,
+    reordered: (column, from, to) => `Reordered in ${column} from position ${from} to ${to}`,
+    deleted: 'Moved to the trash',
+    restored: 'Restored from the trash',
+  },
+  transfer: {
+    title: 'Import / export',
+    subtitle: 'Supports JSON, CSV and iCalendar (VTODO)',
+    formats: { json: 'JSON (backup)', csv: 'CSV', ics: 'iCalendar' },
+    file: 'Import from a file',
+    failed: (message) => `Import failed: ${message}`,
+    exportFailed: (message) => `Export failed: ${message}`,
+    confirmReplace: (count) => `This replaces your current ${plural(count, 'task')}. Continue?`,
+    result: (added, updated, skipped) => `${added} added · ${updated} updated · ${skipped} skipped`,
+    summary: (fileName, count) => `${fileName}: ${plural(count, 'task')} ready to import`,
+    duplicates: (count) => ` (${count} duplicate${count === 1 ? '' : 's'})`,
+    invalidCount: (count) => ` · ${count} invalid`,
+    mode: 'Import mode',
+    merge: 'Add to existing tasks',
+    replace: 'Replace everything',
+    duplicateHandling: 'Duplicate tasks',
+    skip: 'Skip',
+    overwrite: 'Overwrite',
+    duplicateById: 'Duplicate (ID)',
+    duplicateByTitle: 'Duplicate (title)',
+    new: 'New',
+    invalid: 'Invalid',
+    row: (row, reason) => `Row ${row}: ${reason}`,
+    import: 'Import',
+  },
+  sync: {
+    title: 'Server sync',
+    subtitle: 'Two-way sync with a REST server. Changes made offline are sent when you reconnect',
+    endpoint: 'Sync server URL',
+    connect: 'Connect',
+    disconnect: 'Disconnect',
+    syncNow: 'Sync now',
+    states: { disabled: 'Sync off', idle: 'Synced', syncing: 'Syncing…', offline: 'Offline', error: 'Sync error' },
+    pending: (count) => `${plural(count, 'change')} pending`,
+    lastSynced: (time) => `Last synced: ${time}`,
+    retryAt: (time) => `Retrying at ${time}`,
+    invalidEndpoint: 'Enter a URL starting with http(s)://',
+  },
+  pwa: {
+    offline: 'Offline',
+    offlineReady: 'Available offline',
+    updateAvailable: 'A new version is available',
+    reload: 'Reload',
+    later: 'Later',
+  },
+  workflow: {
+    title: 'Workflow',
+    subtitle: 'Add and reorder columns, set WIP limits',
+    name: 'Column name',
+    moveLeft: (name) => `Move ${name} left`,
+    moveRight: (name) => `Move ${name} right`,
+    done: 'Counts as done',
+    noLimit: 'None',
+    wipLimit: (name) => `WIP limit for ${name}`,
+    wipMode: (name) => `What happens when ${name} exceeds its WIP limit`,
+    warn: 'Warn',
+    block: 'Block',
+    moveTasksTo: 'Move tasks to',
+    placeholder: 'New column (e.g. Review)',
+    add: 'Add column',
+  },
+  quarantine: {
+    title: (count) => `${plural(count, 'record')} could not be loaded`,
+    subtitle: 'Corrupted or outdated data was set aside. Try to recover it or download it as a backup.',
+    recover: 'Try to recover',
+    download: 'Download',
+    discard: 'Discard',
+    confirmDiscard: 'Permanently delete the quarantined data?',
+    failed: (count) => `${plural(count, 'record')} could not be recovered. Download them to inspect the contents.`,
+  },
+  shortcuts: {
+    title: 'Keyboard shortcuts',
+    note: 'While a form field has focus, only Ctrl+K is available.',
+    newTask: 'New task',
+    move: 'Select next / previous task',
+    edit: 'Edit the selected task',
+    status: 'Change status (board column order)',
+    priority: 'Cycle priority',
+    delete: 'Delete task',
+    search: 'Focus search',
+    palette: 'Command palette',
+    undo: 'Undo (Shift to redo)',
+    help: 'Show this help',
+  },
+  palette: {
+    label: 'Command palette',
+    placeholder: 'Search tasks and commands…',
+    empty: 'No matches',
+    actions: 'Action',
+    tasks: 'Task',
+    newTask: 'New task',
+    search: 'Focus search',
+    openTrash: 'Open trash',
+    help: 'Keyboard shortcuts',
+    openList: (name) => `Open list: ${name}`,
+    setStatus: (column) => `Set status to "${column}"`,
+    cyclePriority: 'Cycle priority',
+    deleteSelected: 'Delete the selected task',
+  },
+  routing: {
+    notFound: 'Task not found',
+    notFoundBody: (id) => `The task "${id}" does not exist or has been moved to the trash.`,
+    back: 'Back to board',
+  },
+  history: {
+    added: (title) => `Add "${title}"`,
+    updated: (title) => `Update "${title}"`,
+    updatedMany: (count) => `Update ${plural(count, 'task')}`,
+    moved: (title) => `Move "${title}"`,
+    movedMany: (count) => `Move ${plural(count, 'task')}`,
+    skipped: (title) => `Skip this occurrence of "${title}"`,
+    trashed: (title) => `Move "${title}" to the trash`,
+    trashedMany: (count) => `Move ${plural(count, 'task')} to the trash`,
+    restored: (title) => `Restore "${title}"`,
+    restoredMany: (count) => `Restore ${plural(count, 'task')}`,
+    columnDeleted: (name) => `Delete column "${name}"`,
+    imported: (count) => `Import ${plural(count, 'task')}`,
+    replaced: (count) => `Replace tasks with an import (${count})`,
+    labelDeleted: (name) => `Delete label "${name}"`,
+    listDeleted: (name) => `Delete list "${name}"`,
+  },
+  errors: {
+    unreadableJson: 'Could not read the data as JSON',
+    notRecurring: 'This task does not repeat',
+    retentionDays: 'The retention period must be a whole number of at least 1 day',
+    lastColumn: 'The last column cannot be deleted',
+    targetColumn: 'Choose a column to move the tasks to',
+    defaultList: 'The default list cannot be deleted',
+    defaultListName: 'Tasks',
+    notExport: 'This is not a tanstack-todo export',
+    newerVersion: (version) => `This file was created by a newer version (v${version})`,
+    csvQuote: 'A quoted CSV value is not closed',
+    csvEmpty: 'The CSV file is empty',
+    csvTitle: 'The CSV file has no title column',
+    csvChecklist: 'The checklist column is not JSON',
+    csvRecurrence: (value) => `Could not understand the recurrence "${value}"`,
+    notIcs: 'This is not an iCalendar file',
+    notObject: 'The record is not an object',
+    recoveredTitle: 'Recovered task',
+  },
+  query: {
+    unclosedQuote: 'A " quote is not closed',
+    missingValue: (key) => `"${key}:" has no value`,
+    emptyTerm: 'The query contains an empty term',
+    invalidDate: (raw) => `"${raw}" is not a date (use YYYY-MM-DD, today, 7d, 2w and so on)`,
+    priority: 'Priority',
+    unknownValue: (label, raw, allowed) => `Unknown ${label.toLowerCase()} "${raw}" (${allowed})`,
+    unknownPresence: (term, allowed) => `Unknown "${term}" (${allowed})`,
+    unknownKey: (key, allowed) => `Unknown search key "${key}:" (${allowed})`,
+  },
+  validation: {
+    statusRequired: 'Status is required',
+    titleRequired: 'Title is required',
+    itemRequired: 'Item name is required',
+    labelNameRequired: 'Label name is required',
+    listNameRequired: 'List name is required',
+    columnNameRequired: 'Column name is required',
+    color: 'Use a #RRGGBB color',
+    time: 'Use the HH:MM time format',
+    columnsRequired: 'At least one column is required',
+    doneColumnMissing: 'The done column does not exist',
+    duplicateColumnIds: 'Column IDs must be unique',
+  },
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod'
+import { en } from './en'
+import { ja, type Messages } from './ja'
+
+export type Locale = 'ja' | 'en'
+export type { Messages }
+
+export const locales: Record<Locale, { name: string; tag: string; messages: Messages; zod: () => Parameters<typeof z.config>[0] }> = {
+  ja: { name: '日本語', tag: 'ja-JP', messages: ja, zod: z.locales.ja },
+  en: { name: 'English', tag: 'en-US', messages: en, zod: z.locales.en },
+}
+
+const listeners = new Set<() => void>()
+let active: Locale = detectLocale()
+z.config(locales[active].zod())
+
+export function isLocale(value: unknown): value is Locale {
+  return value === 'ja' || value === 'en'
+}
+
+export function detectLocale(): Locale {
+  const language = typeof navigator === 'undefined' ? 'ja' : navigator.language
+  return language.toLowerCase().startsWith('ja') ? 'ja' : 'en'
+}
+
+export function getLocale() {
+  return active
+}
+
+export function setLocale(locale: Locale) {
+  if (locale === active) return
+  active = locale
+  z.config(locales[locale].zod())
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeLocale(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function messages(): Messages {
+  return locales[active].messages
+}
+
+function toDate(value: string | number | Date) {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number)
+    return new Date(year, month - 1, day)
+  }
+  return new Date(value)
+}
+
+export function formatDate(value: string | number | Date) {
+  return toDate(value).toLocaleDateString(locales[active].tag, { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export function formatDateTime(value: string | number | Date) {
+  return toDate(value).toLocaleString(locales[active].tag, { dateStyle: 'medium', timeStyle: 'short' })
+}
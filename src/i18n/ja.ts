@@ -0,0 +1,426 @@
+export const ja = {
+  common: {
+    add: '追加',
+    all: 'すべて',
+    cancel: 'キャンセル',
+    close: '閉じる',
+    create: '作成',
+    delete: '削除',
+    details: '詳細',
+    moveDown: '下へ',
+    moveUp: '上へ',
+    none: 'なし',
+    open: '開く',
+    redo: 'やり直す',
+    restore: '復元',
+    undo: '元に戻す',
+    due: (date: string) => `期限: ${date}`,
+    created: (date: string) => `作成: ${date}`,
+    updated: (date: string) => `更新: ${date}`,
+    deleteNamed: (name: string) => `${name} を削除`,
+    confirmTrash: (title: string) => `「${title}」をゴミ箱に移動しますか？`,
+  },
+  priority: {
+    low: '低',
+    medium: '中',
+    high: '高',
+  },
+  status: {
+    todo: '未着手',
+    'in-progress': '進行中',
+    done: '完了',
+  } as Record<string, string>,
+  storage: {
+    indexeddb: 'IndexedDB',
+    localstorage: 'localStorage',
+    memory: 'メモリ',
+  },
+  app: {
+    lede: 'Google ToDo の軽さ、Microsoft To Do の実用性、GitHub Issues のステータス管理。すべてブラウザだけで完結。',
+    persisted: (storage: string) => `${storage} 永続化`,
+    offline: 'オフライン対応',
+    shortcuts: '⌨️ ショートカット',
+    language: '言語',
+  },
+  toast: {
+    wipExceeded: (column: string, limit: number) => `「${column}」の WIP 上限 (${limit}) を超えています`,
+    wipBlocked: (column: string, limit: number) => `「${column}」の WIP 上限 (${limit}) を超えています。移動できません`,
+    movedToTrash: (title?: string) => (title ? `「${title}」をゴミ箱に移動しました` : 'タスクをゴミ箱に移動しました'),
+    movedManyToTrash: (count: number) => `${count} 件のタスクをゴミ箱に移動しました`,
+    undone: (label: string) => `元に戻しました: ${label}`,
+    redone: (label: string) => `やり直しました: ${label}`,
+    addTaskFailed: 'タスクを追加できませんでした',
+    updateTaskFailed: 'タスクを更新できませんでした',
+    deleteTaskFailed: 'タスクを削除できませんでした',
+    moveTaskFailed: 'タスクを移動できませんでした',
+    createLabelFailed: 'ラベルを作成できませんでした',
+    updateLabelFailed: 'ラベルを更新できませんでした',
+    deleteLabelFailed: 'ラベルを削除できませんでした',
+    createListFailed: 'リストを作成できませんでした',
+    updateListFailed: 'リストを更新できませんでした',
+    deleteListFailed: 'リストを削除できませんでした',
+    skipFailed: 'スキップできませんでした',
+    endSeriesFailed: '繰り返しを終了できませんでした',
+    undoFailed: '元に戻せませんでした',
+    redoFailed: 'やり直せませんでした',
+  },
+  board: {
+    title: 'ボードビュー',
+    subtitle: 'GitHub Issues のようにステータスを俯瞰',
+    empty: 'なし',
+    noDescription: '詳細なし',
+    moveHandle: (title: string) => `タスク「${title}」を移動`,
+    roleDescription: '並べ替え可能なタスク',
+    statusOf: (title: string) => `タスク「${title}」のステータス`,
+    wipTitle: (limit: number, block: boolean) => `WIP 上限 ${limit}（${block ? '超過を禁止' : '超過時に警告'}）`,
+  },
+  dnd: {
+    instructions:
+      'タスクを移動するには、スペースキーまたは Enter キーで持ち上げ、矢印キーで移動先を選び、もう一度スペースキーまたは Enter キーで確定します。Escape キーでキャンセルできます。',
+    position: (column: string, position: number) => `${column}の${position}番目`,
+    pickedUp: (title: string, column: string) => `タスク「${title}」を持ち上げました。${column}にあります。`,
+    over: (title: string, place: string) => `タスク「${title}」は${place}にあります。`,
+    outside: (title: string) => `タスク「${title}」はドロップできる場所の外にあります。`,
+    unchanged: (title: string) => `タスク「${title}」は元の位置のままです。`,
+    blocked: (column: string, title: string) => `「${column}」は WIP 上限に達しているため、タスク「${title}」を移動できませんでした。`,
+    moved: (title: string, place: string) => `タスク「${title}」を${place}に移動しました。`,
+    movedMany: (count: number, place: string) => `${count} 件のタスクを${place}に移動しました。`,
+    cancelled: (title?: string) =>
+      title ? `移動をキャンセルしました。タスク「${title}」は元の位置に戻りました。` : '移動をキャンセルしました。',
+  },
+  bulk: {
+    selected: (count: number) => `${count} 件選択中`,
+    selectAll: '表示中のタスクをすべて選択',
+    select: (title: string) => `「${title}」を選択`,
+    status: 'ステータス',
+    priority: '優先度',
+    change: '変更…',
+    shiftDue: '期限をずらす',
+    shift: (days: number) => (days > 0 ? `+${days}日` : `${days}日`),
+    delete: 'まとめて削除',
+    confirmDelete: (count: number) => `${count} 件のタスクをゴミ箱に移動します。よろしいですか？`,
+    clear: '選択を解除',
+    dragging: (count: number) => `${count} 件をまとめて移動`,
+  },
+  taskList: {
+    title: 'タスクリスト',
+    subtitle: '軽いリスト操作と素早い切り替え',
+    newTask: '+ 新規タスク',
+    empty: 'タスクがありません。追加してください。',
+    order: (order: number) => `並び順: ${order}`,
+  },
+  listView: {
+    sort: '並び替え',
+    sortKeys: { manual: '手動（ボード順）', dueDate: '期限', priority: '優先度', createdAt: '作成日', updatedAt: '更新日', title: 'タイトル' },
+    ascending: '昇順',
+    descending: '降順',
+    groupBy: 'グループ',
+    groups: { none: 'なし', status: 'ステータス', priority: '優先度', due: '期限' },
+    due: { overdue: '期限切れ', today: '今日', week: '今週', later: '来週以降', none: '期限なし' },
+  },
+  editor: {
+    newTitle: '新規作成',
+    editTitle: 'タスク詳細 / 編集',
+    subtitle: 'Microsoft To Do 風の実用的な編集体験',
+    title: 'タイトル *',
+    titlePlaceholder: '例: 仕様確認のミーティング',
+    description: '詳細',
+    descriptionPlaceholder: '内容やメモを記入',
+    status: 'ステータス',
+    priority: '優先度',
+    list: 'リスト',
+    dueDate: '期限',
+    completeWhenChecklistDone: 'すべてチェックしたら完了にする',
+    submitNew: '追加する',
+    submitUpdate: '更新する',
+  },
+  checklist: {
+    title: 'チェックリスト',
+    complete: (title: string) => `${title} を完了にする`,
+    placeholder: '項目を追加',
+    progress: 'チェックリストの進捗',
+    done: (done: number, total: number) => `${done}/${total} 完了`,
+  },
+  labels: {
+    title: 'ラベル',
+    subtitle: '名前と色を管理',
+    empty: 'タスクの編集画面からラベルを作成できます。',
+    none: 'ラベルはまだありません',
+    name: 'ラベル名',
+    color: 'ラベルの色',
+    colorOf: (name: string) => `${name} の色`,
+    placeholder: '新しいラベル',
+    confirmDelete: (name: string) => `ラベル「${name}」を削除しますか？`,
+  },
+  lists: {
+    title: 'リスト',
+    all: 'すべてのタスク',
+    trash: 'ゴミ箱',
+    icon: 'アイコン',
+    name: 'リスト名',
+    color: 'リストの色',
+    placeholder: '新しいリスト',
+    add: 'リストを追加',
+    confirmDelete: (name: string, fallback: string) => `リスト「${name}」を削除しますか？タスクは「${fallback}」に移動します。`,
+  },
+  smartLists: {
+    title: 'スマートリスト',
+    names: { myDay: '今日', overdue: '期限切れ', upcoming: '今後7日', planned: '予定あり', important: '優先度高' },
+    overdue: '期限切れ',
+    addToMyDay: '今日の予定に追加',
+    removeFromMyDay: '今日の予定から外す',
+  },
+  filters: {
+    title: 'フィルタ',
+    subtitle: '状態・優先度・期限・ラベルで絞り込み',
+    dueBefore: '期限（まで）',
+    labelMode: 'ラベルの一致条件',
+    labelAny: 'いずれかを含む',
+    labelAll: 'すべてを含む',
+    includeDone: '完了済みも表示する',
+  },
+  search: {
+    label: '検索',
+    examples: '例:',
+    sampleLabel: '仕事',
+    sampleText: '仕様',
+  },
+  recurrence: {
+    title: '繰り返し',
+    type: '繰り返しの種類',
+    daily: '日ごと',
+    weekly: '週ごと',
+    monthly: '月ごと',
+    interval: '間隔',
+    every: { daily: '日ごと', weekly: '週ごと', monthly: 'か月ごと' },
+    weekdays: ['日', '月', '火', '水', '木', '金', '土'],
+    weekdayGroup: '曜日',
+    monthDay: '毎月',
+    dayOfMonth: '日付',
+    daySuffix: '日',
+    until: '終了日',
+    next: (date: string) => `次回: ${date}`,
+    skip: '今回をスキップ',
+    end: '繰り返しを終了',
+    describe: {
+      until: (date: string) => `（${date} まで）`,
+      daily: (interval: number) => (interval === 1 ? '毎日' : `${interval} 日ごと`),
+      weekly: (interval: number) => (interval === 1 ? '毎週' : `${interval} 週ごと`),
+      weekdays: (days: string[]) => ` ${days.join('・')}曜`,
+      monthly: (interval: number, day: number) => `${interval === 1 ? '毎月' : `${interval} か月ごと`} ${day} 日`,
+    },
+  },
+  reminder: {
+    title: 'リマインダー',
+    type: 'リマインダーの種類',
+    atDue: '期限の時刻',
+    beforeDue: '期限の前',
+    dueTime: '期限の時刻',
+    amount: '通知のタイミング',
+    unit: '単位',
+    units: { minutes: '分前', hours: '時間前', days: '日前' },
+    needsDueDate: '期限を設定すると通知されます',
+    notifyAt: (summary: string, at: string) => `${summary} ・ 通知: ${at}`,
+    describeAtDue: (time: string) => `期限 ${time}`,
+    describeBefore: (amount: number, unit: 'minutes' | 'hours' | 'days') =>
+      `${amount} ${{ minutes: '分', hours: '時間', days: '日' }[unit]}前`,
+    permissionPrompt: 'リマインダーをデスクトップ通知で受け取れます。',
+    allow: '通知を許可',
+    banner: (title: string) => `⏰ 「${title}」のリマインダー`,
+  },
+  trash: {
+    title: 'ゴミ箱',
+    subtitle: (days: number) => `削除したタスクは ${days} 日後に自動で完全削除されます`,
+    retention: '保持期間',
+    days: (days: number) => `${days} 日`,
+    selectAll: 'すべて選択',
+    select: (title: string) => `${title} を選択`,
+    restoreSelected: '選択を復元',
+    purgeSelected: '選択を完全に削除',
+    empty: 'ゴミ箱を空にする',
+    isEmpty: 'ゴミ箱は空です',
+    deletedAt: (date: string) => `削除: ${date}`,
+    expiresAt: (date: string) => `完全削除予定: ${date}`,
+    purge: '完全に削除',
+    confirmPurge: (count: number) => `${count} 件のタスクを完全に削除します。この操作は元に戻せません。よろしいですか？`,
+    confirmEmpty: 'ゴミ箱を空にします。この操作は元に戻せません。よろしいですか？',
+  },
+  activity: {
+    title: 'アクティビティ',
+    empty: 'まだ履歴はありません',
+    created: (title: string) => `「${title}」を作成`,
+    status: (from: string, to: string) => `ステータスを ${from} → ${to} に変更`,
+    priority: (from: string, to: string) => `優先度を ${from} → ${to} に変更`,
+    dueCleared: (from: string) => `期限 ${from} を解除`,
+    dueChanged: (from: string, to: string) => `期限を ${from} → ${to} に変更`,
+    dueSet: (to: string) => `期限を ${to} に設定`,
+    reordered: (column: string, from: number, to: number) => `${column} 内で ${from} 番目 → ${to} 番目に並べ替え`,
+    deleted: 'ゴミ箱に移動',
+    restored: 'ゴミ箱から復元',
+  },
+  transfer: {
+    title: 'インポート / エクスポート',
+    subtitle: 'JSON・CSV・iCalendar (VTODO) に対応',
+    formats: { json: 'JSON（バックアップ）', csv: 'CSV', ics: 'iCalendar' },
+    file: 'ファイルから読み込む',
+    failed: (message: string) => `インポートできませんでした: ${message}`,
+    exportFailed: (message: string) => `エクスポートできませんでした: ${message}`,
+    confirmReplace: (count: number) => `現在の ${count} 件のタスクを置き換えます。よろしいですか？`,
+    result: (added: number, updated: number, skipped: number) => `追加 ${added} 件・更新 ${updated} 件・スキップ ${skipped} 件`,
+    summary: (fileName: string, count: number) => `${fileName}: ${count} 件を読み込み可能`,
+    duplicates: (count: number) => `（うち重複 ${count} 件）`,
+    invalidCount: (count: number) => `・${count} 件は無効`,
+    mode: '取り込み方法',
+    merge: '既存のタスクに追加',
+    replace: 'すべて置き換える',
+    duplicateHandling: '重複したタスク',
+    skip: 'スキップ',
+    overwrite: '上書き',
+    duplicateById: '重複 (ID)',
+    duplicateByTitle: '重複 (タイトル)',
+    new: '新規',
+    invalid: '無効',
+    row: (row: number, reason: string) => `${row} 行目: ${reason}`,
+    import: 'インポート',
+  },
+  sync: {
+    title: 'サーバー同期',
+    subtitle: 'REST サーバーと変更を双方向に同期。オフライン中の変更は再接続時に送信されます',
+    endpoint: '同期サーバー URL',
+    connect: '接続',
+    disconnect: '切断',
+    syncNow: '今すぐ同期',
+    states: { disabled: '同期オフ', idle: '同期済み', syncing: '同期中…', offline: 'オフライン', error: '同期エラー' },
+    pending: (count: number) => `未送信 ${count} 件`,
+    lastSynced: (time: string) => `最終同期: ${time}`,
+    retryAt: (time: string) => `${time} に再試行`,
+    invalidEndpoint: 'http(s):// から始まる URL を入力してください',
+  },
+  pwa: {
+    offline: 'オフライン中',
+    offlineReady: 'オフラインでも利用できます',
+    updateAvailable: '新しいバージョンが利用可能です',
+    reload: '更新する',
+    later: '後で',
+  },
+  workflow: {
+    title: 'ワークフロー',
+    subtitle: '列の追加・並べ替えと WIP 上限',
+    name: '列名',
+    moveLeft: (name: string) => `${name} を左へ`,
+    moveRight: (name: string) => `${name} を右へ`,
+    done: '完了扱い',
+    noLimit: 'なし',
+    wipLimit: (name: string) => `${name} の WIP 上限`,
+    wipMode: (name: string) => `${name} の WIP 超過時の動作`,
+    warn: '警告',
+    block: '禁止',
+    moveTasksTo: 'タスクの移動先',
+    placeholder: '新しい列（例: レビュー）',
+    add: '列を追加',
+  },
+  quarantine: {
+    title: (count: number) => `読み込めなかったデータが ${count} 件あります`,
+    subtitle: '破損または古い形式のデータを隔離しました。復元を試すか、バックアップとして保存できます。',
+    recover: '復元を試す',
+    download: 'ダウンロード',
+    discard: '破棄',
+    confirmDiscard: '隔離されたデータを完全に削除します。よろしいですか？',
+    failed: (count: number) => `${count} 件は復元できませんでした。ダウンロードして内容を確認してください。`,
+  },
+  shortcuts: {
+    title: 'キーボードショートカット',
+    note: '入力欄にフォーカスがある間は Ctrl+K 以外のショートカットは無効です。',
+    newTask: '新規タスク',
+    move: '次 / 前のタスクを選択',
+    edit: '選択中のタスクを編集',
+    status: 'ステータスを変更（ボードの列順）',
+    priority: '優先度を切り替え',
+    delete: 'タスクを削除',
+    search: '検索にフォーカス',
+    palette: 'コマンドパレット',
+    undo: '元に戻す（Shift でやり直す）',
+    help: 'このヘルプを表示',
+  },
+  palette: {
+    label: 'コマンドパレット',
+    placeholder: 'タスクやコマンドを検索…',
+    empty: '一致する項目がありません',
+    actions: 'アクション',
+    tasks: 'タスク',
+    newTask: '新規タスク',
+    search: '検索にフォーカス',
+    openTrash: 'ゴミ箱を開く',
+    help: 'ショートカット一覧',
+    openList: (name: string) => `リストを開く: ${name}`,
+    setStatus: (column: string) => `ステータスを「${column}」に変更`,
+    cyclePriority: '優先度を切り替え',
+    deleteSelected: '選択中のタスクを削除',
+  },
+  routing: {
+    notFound: 'タスクが見つかりません',
+    notFoundBody: (id: string) => `ID「${id}」のタスクは存在しないか、ゴミ箱に移動されています。`,
+    back: 'ボードに戻る',
+  },
+  history: {
+    added: (title: string) => `「${title}」を追加`,
+    updated: (title: string) => `「${title}」を更新`,
+    updatedMany: (count: number) => `${count} 件のタスクを更新`,
+    moved: (title: string) => `「${title}」を移動`,
+    movedMany: (count: number) => `${count} 件のタスクを移動`,
+    skipped: (title: string) => `「${title}」の今回をスキップ`,
+    trashed: (title: string) => `「${title}」をゴミ箱に移動`,
+    trashedMany: (count: number) => `${count} 件のタスクをゴミ箱に移動`,
+    restored: (title: string) => `「${title}」を復元`,
+    restoredMany: (count: number) => `${count} 件のタスクを復元`,
+    columnDeleted: (name: string) => `列「${name}」を削除`,
+    imported: (count: number) => `${count} 件のタスクをインポート`,
+    replaced: (count: number) => `タスクを置き換えてインポート（${count} 件）`,
+    labelDeleted: (name: string) => `ラベル「${name}」を削除`,
+    listDeleted: (name: string) => `リスト「${name}」を削除`,
+  },
+  errors: {
+    unreadableJson: 'JSON として読み込めませんでした',
+    notRecurring: '繰り返しタスクではありません',
+    retentionDays: '保持期間は 1 日以上の整数で指定してください',
+    lastColumn: '最後の列は削除できません',
+    targetColumn: '移動先の列を選んでください',
+    defaultList: '既定のリストは削除できません',
+    defaultListName: 'タスク',
+    notExport: 'tanstack-todo のエクスポート形式ではありません',
+    newerVersion: (version: number) => `このファイルは新しいバージョン (v${version}) で作成されています`,
+    csvQuote: 'CSV の引用符が閉じられていません',
+    csvEmpty: 'CSV が空です',
+    csvTitle: 'CSV に title 列がありません',
+    csvChecklist: 'checklist 列が JSON ではありません',
+    csvRecurrence: (value: string) => `recurrence「${value}」を解釈できません`,
+    notIcs: 'iCalendar 形式ではありません',
+    notObject: 'レコードがオブジェクトではありません',
+    recoveredTitle: '復元されたタスク',
+  },
+  query: {
+    unclosedQuote: '引用符 " が閉じられていません',
+    missingValue: (key: string) => `「${key}:」の値がありません`,
+    emptyTerm: '空の検索語があります',
+    invalidDate: (raw: string) => `「${raw}」は日付として解釈できません（YYYY-MM-DD、today、7d、2w などが使えます）`,
+    priority: '優先度',
+    unknownValue: (label: string, raw: string, allowed: string) => `${label}「${raw}」は不明です（${allowed}）`,
+    unknownPresence: (term: string, allowed: string) => `「${term}」は不明です（${allowed}）`,
+    unknownKey: (key: string, allowed: string) => `不明な検索キー「${key}:」です（${allowed}）`,
+  },
+  validation: {
+    statusRequired: 'ステータスは必須です',
+    titleRequired: 'タイトルは必須です',
+    itemRequired: '項目名は必須です',
+    labelNameRequired: 'ラベル名は必須です',
+    listNameRequired: 'リスト名は必須です',
+    columnNameRequired: '列名は必須です',
+    color: '色は #RRGGBB 形式で指定してください',
+    time: '時刻は HH:MM 形式で指定してください',
+    columnsRequired: '列は 1 つ以上必要です',
+    doneColumnMissing: '完了扱いの列が存在しません',
+    duplicateColumnIds: '列の ID が重複しています',
+  },
+}
+
+export type Messages = typeof ja
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getLocale, locales, subscribeLocale } from '.'
+
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale, getLocale)
+  return { locale, t: locales[locale].messages }
+}
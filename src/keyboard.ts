@@ -0,0 +1,44 @@
+import type { Messages } from './i18n'
+
+export type ShortcutHelp = {
+  keys: string[]
+  description: Exclude<keyof Messages['shortcuts'], 'title' | 'note'>
+}
+
+export const shortcutHelp: ShortcutHelp[] = [
+  { keys: ['n'], description: 'newTask' },
+  { keys: ['j', 'k'], description: 'move' },
+  { keys: ['e'], description: 'edit' },
+  { keys: ['1', '2', '3'], description: 'status' },
+  { keys: ['p'], description: 'priority' },
+  { keys: ['Del'], description: 'delete' },
+  { keys: ['/'], description: 'search' },
+  { keys: ['Ctrl', 'K'], description: 'palette' },
+  { keys: ['Ctrl', 'Z'], description: 'undo' },
+  { keys: ['?'], description: 'help' },
+]
+
+export function isTypingTarget(target: EventTarget | null) {
+  return target instanceof Element && Boolean(target.closest('input, textarea, select, [contenteditable="true"]'))
+}
+
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return 0
+  const haystack = text.toLowerCase()
+  const exact = haystack.indexOf(needle)
+  if (exact !== -1) return 1000 - exact
+
+  let score = 0
+  let position = -1
+  let streak = 0
+  for (const char of needle) {
+    if (char === ' ') continue
+    const next = haystack.indexOf(char, position + 1)
+    if (next === -1) return null
+    streak = next === position + 1 ? streak + 1 : 0
+    score += 10 + streak * 5 - Math.min(next - position - 1, 10)
+    position = next
+  }
+  return score
+}
@@ -2,10 +2,13 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import App from './App'
+import { registerServiceWorker } from './pwa'
 import './index.css'
 
 const queryClient = new QueryClient()
 
+if (import.meta.env.PROD) registerServiceWorker().catch(() => undefined)
+
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
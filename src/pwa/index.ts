@@ -0,0 +1,67 @@
+export type PwaState = {
+  online: boolean
+  offlineReady: boolean
+  updateReady: boolean
+}
+
+const listeners = new Set<() => void>()
+let state: PwaState = { online: typeof navigator === 'undefined' || navigator.onLine, offlineReady: false, updateReady: false }
+let waiting: ServiceWorker | null = null
+
+function update(patch: Partial<PwaState>) {
+  state = { ...state, ...patch }
+  listeners.forEach((listener) => listener())
+}
+
+export function getPwaState() {
+  return state
+}
+
+export function subscribePwa(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => update({ online: true }))
+  window.addEventListener('offline', () => update({ online: false }))
+}
+
+function track(worker: ServiceWorker | null) {
+  if (!worker) return
+  const settle = () => {
+    if (worker.state !== 'installed') return
+    if (navigator.serviceWorker.controller) {
+      waiting = worker
+      update({ updateReady: true })
+    } else {
+      update({ offlineReady: true })
+    }
+  }
+  settle()
+  worker.addEventListener('statechange', settle)
+}
+
+export async function registerServiceWorker(url = `${import.meta.env.BASE_URL}sw.js`) {
+  if (!('serviceWorker' in navigator)) return
+
+  const registration = await navigator.serviceWorker.register(url, { scope: import.meta.env.BASE_URL })
+  if (registration.active) update({ offlineReady: true })
+  track(registration.waiting)
+  registration.addEventListener('updatefound', () => track(registration.installing))
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') void registration.update().catch(() => undefined)
+  })
+}
+
+export function applyUpdate() {
+  if (!waiting) return
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+  waiting.postMessage({ type: 'SKIP_WAITING' })
+}
+
+export function dismissUpdate() {
+  update({ updateReady: false })
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getPwaState, subscribePwa } from '.'
+
+export function usePwa() {
+  return useSyncExternalStore(subscribePwa, getPwaState, getPwaState)
+}
@@ -0,0 +1,97 @@
+import { DEFAULT_LIST_ID, isSmartList, parseQuery, QuerySyntaxError, type TaskFilter } from '../db/database'
+import { taskPrioritySchema } from '../db/schema'
+
+export type Route = {
+  view: 'board' | 'trash'
+  taskId?: string
+  listId: string
+  filters: TaskFilter
+}
+
+type NavigateOptions = {
+  replace?: boolean
+}
+
+const listeners = new Set<() => void>()
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseFilters(params: URLSearchParams): TaskFilter {
+  const filters: TaskFilter = { includeDone: params.get('done') !== '0' }
+  const status = params.get('status')
+  if (status) filters.status = status
+  const priority = taskPrioritySchema.safeParse(params.get('priority'))
+  if (priority.success) filters.priority = priority.data
+  const due = params.get('due')
+  if (due && DATE_PATTERN.test(due)) filters.dueBefore = due
+  const labelIds = params.get('labels')?.split(',').filter(Boolean)
+  if (labelIds?.length) filters.labelIds = labelIds
+  if (params.get('match') === 'all') filters.labelMode = 'all'
+  const smartList = params.get('smart')
+  if (isSmartList(smartList)) filters.smartList = smartList
+  const source = params.get('q')
+  if (source) {
+    try {
+      const query = parseQuery(source)
+      if (query.clauses.length) filters.query = query
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) throw error
+    }
+  }
+  return filters
+}
+
+export function parseRoute(url: string): Route {
+  const { pathname, searchParams } = new URL(url, 'http://localhost')
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  const base = { listId: searchParams.get('list') ?? DEFAULT_LIST_ID, filters: parseFilters(searchParams) }
+  if (segments[0] === 'trash') return { ...base, view: 'trash' }
+  if (segments[0] === 'tasks' && segments[1]) return { ...base, view: 'board', taskId: segments[1] }
+  return { ...base, view: 'board' }
+}
+
+export function formatRoute(route: Route): string {
+  const { filters } = route
+  const params = new URLSearchParams()
+  if (route.listId !== DEFAULT_LIST_ID) params.set('list', route.listId)
+  if (filters.status && filters.status !== 'all') params.set('status', filters.status)
+  if (filters.priority && filters.priority !== 'all') params.set('priority', filters.priority)
+  if (filters.dueBefore) params.set('due', filters.dueBefore)
+  if (filters.labelIds?.length) params.set('labels', filters.labelIds.join(','))
+  if (filters.labelMode === 'all') params.set('match', 'all')
+  if (!filters.includeDone) params.set('done', '0')
+  if (filters.query) params.set('q', filters.query.source)
+  if (filters.smartList) params.set('smart', filters.smartList)
+
+  const path = route.view === 'trash' ? '/trash' : route.taskId ? `/tasks/${encodeURIComponent(route.taskId)}` : '/board'
+  const search = params.toString().replace(/%2C/g, ',')
+  return search ? `${path}?${search}` : path
+}
+
+export function readLocation() {
+  return `${window.location.pathname}${window.location.search}`
+}
+
+export function currentRoute() {
+  return parseRoute(readLocation())
+}
+
+export function navigate(route: Route, { replace = false }: NavigateOptions = {}) {
+  const url = formatRoute(route)
+  if (url === readLocation()) return
+  if (replace) window.history.replaceState(null, '', url)
+  else window.history.pushState(null, '', url)
+  listeners.forEach((listener) => listener())
+}
+
+export function updateRoute(patch: Partial<Route>, options?: NavigateOptions) {
+  navigate({ ...currentRoute(), ...patch }, options)
+}
+
+export function subscribeRoute(listener: () => void) {
+  listeners.add(listener)
+  window.addEventListener('popstate', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('popstate', listener)
+  }
+}
@@ -0,0 +1,7 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { parseRoute, readLocation, subscribeRoute } from '.'
+
+export function useRoute() {
+  const location = useSyncExternalStore(subscribeRoute, readLocation, () => '/')
+  return useMemo(() => parseRoute(location), [location])
+}
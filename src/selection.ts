@@ -0,0 +1,13 @@
+export function toggleSelection(selection: Set<string>, order: string[], id: string, anchor: string | null, range: boolean) {
+  const next = new Set(selection)
+  const from = anchor === null ? -1 : order.indexOf(anchor)
+  const to = order.indexOf(id)
+  if (anchor !== null && range && from !== -1 && to !== -1) {
+    const checked = selection.has(anchor)
+    order.slice(Math.min(from, to), Math.max(from, to) + 1).forEach((item) => (checked ? next.add(item) : next.delete(item)))
+    return next
+  }
+  if (next.has(id)) next.delete(id)
+  else next.add(id)
+  return next
+}
@@ -0,0 +1,47 @@
+declare const self: ServiceWorkerGlobalScope
+declare const __PRECACHE_MANIFEST__: string[]
+declare const __BUILD_VERSION__: string
+
+const CACHE_PREFIX = 'tanstack-todo-'
+const CACHE_NAME = `${CACHE_PREFIX}${__BUILD_VERSION__}`
+const APP_SHELL = new URL('index.html', self.registration.scope).href
+const PRECACHED = new Set(__PRECACHE_MANIFEST__.map((path) => new URL(path, self.registration.scope).href))
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(__PRECACHE_MANIFEST__)))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') void self.skipWaiting()
+})
+
+async function appShell(request: Request) {
+  const cached = await caches.match(APP_SHELL, { cacheName: CACHE_NAME })
+  if (cached) return cached
+  return fetch(request)
+}
+
+async function precached(request: Request) {
+  const cached = await caches.match(request, { cacheName: CACHE_NAME })
+  return cached ?? fetch(request)
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin || !url.href.startsWith(self.registration.scope)) return
+  if (request.mode === 'navigate') event.respondWith(appShell(request))
+  else if (PRECACHED.has(url.href)) event.respondWith(precached(request))
+})
@@ -0,0 +1,67 @@
+import type { ChangeChannel, ChangeMessage } from '../db/broadcast'
+import type { Clock } from '../db/reminders'
+import { taskSchema, type Task } from '../db/schema'
+
+export const FIXTURE_TIMESTAMP = '2024-06-01T00:00:00.000Z'
+
+export function task(input: Partial<Task> = {}): Task {
+  return taskSchema.parse({ id: 't1', title: 'Task', createdAt: FIXTURE_TIMESTAMP, updatedAt: FIXTURE_TIMESTAMP, ...input })
+}
+
+export function memoryStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => {
+      items.delete(key)
+    },
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+  }
+}
+
+export const noopChannel: ChangeChannel = { post: () => undefined, subscribe: () => () => undefined }
+
+export function sharedChannel(): ChangeChannel {
+  const listeners = new Set<(message: ChangeMessage) => void>()
+  return {
+    post: (message) => listeners.forEach((listener) => listener(structuredClone(message))),
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
+
+export function fakeClock(start: number) {
+  let now = start
+  let nextHandle = 0
+  const timers = new Map<number, { at: number; callback: () => void }>()
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      timers.set(++nextHandle, { at: now + delay, callback })
+      return nextHandle
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number)
+    },
+  }
+  const advance = (ms: number) => {
+    now += ms
+    Array.from(timers.entries())
+      .filter(([, timer]) => timer.at <= now)
+      .sort((a, b) => a[1].at - b[1].at)
+      .forEach(([handle, timer]) => {
+        timers.delete(handle)
+        timer.callback()
+      })
+  }
+  return { clock, advance, pending: () => timers.size }
+}
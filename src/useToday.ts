@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from 'react'
+import { localToday } from './db/database'
+
+function subscribeToday(listener: () => void) {
+  let timer = 0
+  const arm = () => {
+    const now = new Date()
+    const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1)
+    timer = window.setTimeout(() => {
+      listener()
+      arm()
+    }, midnight.getTime() - now.getTime())
+  }
+  arm()
+  document.addEventListener('visibilitychange', listener)
+  return () => {
+    window.clearTimeout(timer)
+    document.removeEventListener('visibilitychange', listener)
+  }
+}
+
+export function useToday() {
+  return useSyncExternalStore(subscribeToday, () => localToday())
+}
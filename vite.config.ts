@@ -1,7 +1,48 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const SERVICE_WORKER = 'sw'
+
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    config: () => ({
+      build: {
+        rollupOptions: {
+          input: { index: resolve(import.meta.dirname, 'index.html'), [SERVICE_WORKER]: resolve(import.meta.dirname, 'src/sw.ts') },
+          output: {
+            entryFileNames: (chunk) => (chunk.name === SERVICE_WORKER ? 'sw.js' : 'assets/[name]-[hash].js'),
+          },
+        },
+      },
+    }),
+    generateBundle(_options, bundle) {
+      const worker = Object.values(bundle).find((file) => file.type === 'chunk' && file.name === SERVICE_WORKER)
+      if (!worker || worker.type !== 'chunk') return
+
+      const hash = createHash('sha256')
+      const files = Object.values(bundle)
+        .filter((file) => file !== worker && !file.fileName.endsWith('.map'))
+        .sort((a, b) => a.fileName.localeCompare(b.fileName))
+      files.forEach((file) => hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source))
+      const publicDir = resolve(import.meta.dirname, 'public')
+      const publicFiles = readdirSync(publicDir).sort()
+      publicFiles.forEach((file) => hash.update(file).update(readFileSync(resolve(publicDir, file))))
+      const precache = [...files.map((file) => file.fileName), ...publicFiles]
+
+      worker.code = worker.code
+        .replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(precache))
+        .replaceAll('__BUILD_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })